@@ -1,46 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { LanguagePair } from '@/lib/types';
+import { CircuitOpenError, Language, LanguagePair } from '@/lib/types';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { withRetry } from '@/lib/resilience';
+import { isLanguageList, MAX_LANGUAGES } from '@/lib/speech/language';
 
 export const runtime = 'edge';
 
-// Retry configuration
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000;
-
 const client = new OpenAI({
   baseURL: 'https://api.groq.com/openai/v1',
   apiKey: process.env.GROQ_API_KEY || '',
+  maxRetries: 0, // lib/resilience.ts handles retries
 });
 
-// Smart retry function
-async function withRetry<T>(
-  operation: () => Promise<T>,
-  retryCount = 0
-): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    if (retryCount >= MAX_RETRIES) {
-      throw error;
-    }
-
-    if (
-      error.message?.includes('blocked') ||
-      error.message?.includes('network') ||
-      error.status === 403 ||
-      error.status === 503
-    ) {
-      const delay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(operation, retryCount + 1);
-    }
-
-    throw error;
-  }
-}
-
 export async function POST(req: NextRequest) {
+  const limited = await checkRateLimit(req, 'language');
+  if (limited) return limited;
+
   try {
     const { text } = await req.json();
 
@@ -57,14 +33,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Use retry logic for the API call
-    const completion = await withRetry(async () => {
+    const completion = await withRetry('language', 'groq', async (signal) => {
       return await client.chat.completions.create({
         model: 'llama3-8b-8192',
         // model: 'llama-3.3-70b-versatile',
         messages: [
           {
             role: 'system',
-            content: 'You are a language detection expert. Extract the source and target languages from the user\'s input and return them in a structured format. Use ISO 639-1 codes and English language names.'
+            content: 'You are a language detection expert. Extract the source and target languages from the user\'s input and return them in a structured format. If the user names more than two languages for a group conversation, put the rest in additionalLanguages. Use ISO 639-1 codes and English language names.'
           },
           {
             role: 'user',
@@ -93,6 +69,19 @@ export async function POST(req: NextRequest) {
                     name: { type: 'string', description: 'Full language name in English' }
                   },
                   required: ['code', 'name']
+                },
+                additionalLanguages: {
+                  type: 'array',
+                  description: 'Further languages named for a group conversation, if any',
+                  maxItems: MAX_LANGUAGES - 2,
+                  items: {
+                    type: 'object',
+                    properties: {
+                      code: { type: 'string', description: 'ISO 639-1 language code' },
+                      name: { type: 'string', description: 'Full language name in English' }
+                    },
+                    required: ['code', 'name']
+                  }
                 }
               },
               required: ['sourceLanguage', 'targetLanguage']
@@ -100,16 +89,31 @@ export async function POST(req: NextRequest) {
           }
         ],
         function_call: { name: 'extract_languages' }
-      });
-    });
+      }, { signal });
+    }, req.signal);
 
     const functionCall = completion.choices[0]?.message?.function_call;
     if (!functionCall?.arguments) {
       throw new Error('Failed to extract language information');
     }
 
-    const languagePair = JSON.parse(functionCall.arguments) as LanguagePair;
-    return NextResponse.json(languagePair, {
+    const { sourceLanguage, targetLanguage, additionalLanguages } = JSON.parse(functionCall.arguments) as LanguagePair & {
+      additionalLanguages?: Language[];
+    };
+
+    // Every language in the conversation, without repeats, for multi-party sessions
+    const languages: Language[] = [];
+    for (const language of [sourceLanguage, targetLanguage, ...(isLanguageList(additionalLanguages) ? additionalLanguages : [])]) {
+      if (!languages.some(existing => existing.code.toLowerCase() === language.code.toLowerCase())) {
+        languages.push(language);
+      }
+    }
+
+    return NextResponse.json({
+      sourceLanguage,
+      targetLanguage,
+      languages: languages.slice(0, MAX_LANGUAGES)
+    }, {
       headers: {
         'Cache-Control': 'no-store',
       }
@@ -122,7 +126,10 @@ export async function POST(req: NextRequest) {
     let statusCode = 500;
 
     if (error instanceof Error) {
-      if (error.message.includes('blocked')) {
+      if (error instanceof CircuitOpenError) {
+        errorMessage = 'Language detection is temporarily unavailable. Please try again shortly.';
+        statusCode = 503;
+      } else if (error.message.includes('blocked')) {
         errorMessage = 'Network connection is unstable. Please wait a moment and try again.';
         statusCode = 403;
       } else if (error.message.includes('Failed to fetch')) {
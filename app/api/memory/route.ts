@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseContextMessages, parseSummary } from '@/lib/translation/memory';
+import { updateConversationSummary } from '@/lib/translation/summary';
+import { DEFAULT_MODEL, isModelAllowed } from '@/lib/config/translation';
+import { isLanguageGroup } from '@/lib/speech/language';
+import { checkRateLimit } from '@/lib/rate-limit';
+
+export const runtime = 'edge';
+
+// Fold turns that no longer fit the model's budget into the running summary. Called
+// after a translation has been delivered, so summarizing never holds up the result.
+export async function POST(req: NextRequest) {
+  const limited = await checkRateLimit(req, 'translate');
+  if (limited) return limited;
+
+  const { languages, previousMessages, summary, model } = await req.json();
+
+  if (!isLanguageGroup(languages)) {
+    return NextResponse.json(
+      { error: 'Missing required fields or invalid languages array' },
+      {
+        status: 400,
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    );
+  }
+
+  const modelName = typeof model === 'string' && model ? model : DEFAULT_MODEL;
+  if (!isModelAllowed(modelName)) {
+    return NextResponse.json(
+      { error: 'Invalid translation model', details: `Model not available: ${modelName}` },
+      {
+        status: 400,
+        headers: { 'Cache-Control': 'no-store' }
+      }
+    );
+  }
+
+  // Null when nothing overflowed; the client then keeps sending every turn
+  const memory = await updateConversationSummary({
+    languages,
+    previousMessages: parseContextMessages(previousMessages),
+    summary: parseSummary(summary),
+    model: modelName
+  }, req.signal);
+
+  return NextResponse.json({ memory }, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,310 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeSpeechError, parseSpeechForm, processSpeech } from '@/lib/speech/process';
+import { createTranslationStream, translationContent, TranslationRequest } from '@/lib/translation/translate';
+import { TranslationResponseParser } from '@/lib/translation/response';
+import { enforceGlossary } from '@/lib/translation/glossary';
+import { withFidelity } from '@/lib/translation/quality';
+import { parseContextMessages, parseSummary } from '@/lib/translation/memory';
+import { cacheTranslation, getCachedTranslation } from '@/lib/translation/cache';
+import type { LanguagePair, TranslationResult } from '@/lib/types';
+import { parseGlossary } from '@/lib/glossary';
+import { resolveDirection, resolveSourceLanguage } from '@/lib/translation/direction';
+import { findPairLanguage } from '@/lib/speech/language';
+import { getTTSConfig, prepareSpeechText, synthesizeSpeech } from '@/lib/speech/tts';
+import { DEFAULT_MODEL, isModelAllowed } from '@/lib/config/translation';
+import { DEFAULT_REGISTER, isRegister } from '@/lib/config/register';
+import { DEFAULT_DOMAIN, isDomain } from '@/lib/config/domains';
+import { checkRateLimit, consumeRateLimit } from '@/lib/rate-limit';
+import type { PipelineEvent, PipelineMetrics } from '@/lib/pipeline';
+
+export const runtime = 'edge';
+
+function encodeBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function parseJsonArray(value: FormDataEntryValue | null): unknown[] {
+  if (!value || typeof value !== 'string') return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Audio in; transcript, translation and speech out over a single SSE stream
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+
+  const limited = await checkRateLimit(req, 'pipeline');
+  if (limited) return limited;
+
+  let formData: FormData;
+  let speech;
+  try {
+    formData = await req.formData();
+
+    // Reject a bad model before paying for transcription
+    const modelField = formData.get('model');
+    const modelName = typeof modelField === 'string' && modelField ? modelField : DEFAULT_MODEL;
+    if (!isModelAllowed(modelName)) {
+      return NextResponse.json(
+        { error: 'Invalid translation model', details: `Model not available: ${modelName}` },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' }
+        }
+      );
+    }
+
+    const registerField = formData.get('register');
+    const register = typeof registerField === 'string' && registerField ? registerField : DEFAULT_REGISTER;
+    if (!isRegister(register)) {
+      return NextResponse.json(
+        { error: 'Invalid register', details: `Unknown register: ${register}` },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' }
+        }
+      );
+    }
+
+    const domainField = formData.get('domain');
+    const domain = typeof domainField === 'string' && domainField ? domainField : DEFAULT_DOMAIN;
+    if (!isDomain(domain)) {
+      return NextResponse.json(
+        { error: 'Invalid domain', details: `Unknown domain pack: ${domain}` },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' }
+        }
+      );
+    }
+
+    const speechRequest = parseSpeechForm(formData);
+
+    if (!speechRequest.languages) {
+      return NextResponse.json(
+        { error: 'Missing required fields or invalid languages array' },
+        {
+          status: 400,
+          headers: { 'Cache-Control': 'no-store' }
+        }
+      );
+    }
+
+    speech = { request: speechRequest, result: await processSpeech(speechRequest), model: modelName, register, domain };
+  } catch (error) {
+    // Speech failures keep /api/speech's status codes so clients can handle them the same way
+    const { status, body } = describeSpeechError(error);
+    return NextResponse.json(body, {
+      status,
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  }
+
+  const { request, result, model, register, domain } = speech;
+  const languages = request.languages!;
+  const previousMessages = parseContextMessages(parseJsonArray(formData.get('previousMessages')));
+  const summary = parseSummary(formData.get('summary'));
+  const glossary = parseGlossary(parseJsonArray(formData.get('glossary')));
+  const withTTS = formData.get('tts') === 'true';
+  const withReasoning = formData.get('reasoning') === 'true';
+  const withQualityCheck = formData.get('qualityCheck') === 'true';
+
+  // Cancel provider streams and speech when the client aborts or goes away, so a
+  // superseded utterance stops spending tokens and characters
+  const upstream = new AbortController();
+  req.signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+  const textEncoder = new TextEncoder();
+  const readableStream = new ReadableStream({
+    async start(controller) {
+      const send = (event: PipelineEvent) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(textEncoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const metrics: PipelineMetrics = { sttLatency: result.metrics.sttLatency, model };
+
+      try {
+        send({
+          type: 'transcript',
+          text: result.text,
+          language: result.language,
+          languageCode: result.languageCode
+        });
+
+        const detected = result.languageCode || result.language;
+
+        // A pair may leave the direction to the model; a group translates into every
+        // language but the speaker's, so the source has to be known
+        let directions: (LanguagePair | null)[];
+        if (languages.length === 2) {
+          // Whisper and the script check must agree, otherwise the model works it out
+          directions = [resolveDirection(result.text, languages, detected)];
+        } else {
+          // No model detection to fall back on here, so STT settles a disagreement
+          const sourceLanguage = resolveSourceLanguage(result.text, languages, detected)
+            || findPairLanguage(detected || '', languages);
+          if (!sourceLanguage) {
+            throw new Error('Could not tell which conversation language was spoken');
+          }
+          directions = languages
+            .filter(language => language.code !== sourceLanguage.code)
+            .map(targetLanguage => ({ sourceLanguage, targetLanguage }));
+        }
+        const group = directions.length > 1;
+
+        const translationStart = performance.now();
+        metrics.requestedModel = model;
+
+        const translate = async (direction: LanguagePair | null, index: number): Promise<TranslationResult> => {
+          const translationRequest: TranslationRequest = {
+            text: result.text,
+            languages: direction ? [direction.sourceLanguage, direction.targetLanguage] : languages,
+            previousMessages,
+            summary,
+            vocabulary: request.vocabulary,
+            model,
+            direction,
+            glossary,
+            register,
+            domain
+          };
+          const target = group ? direction?.targetLanguage.code : undefined;
+
+          let translation: TranslationResult;
+          const cached = await getCachedTranslation(translationRequest);
+          if (cached) {
+            // Repeated phrases skip the model round trip entirely
+            translation = cached.result;
+            metrics.model = cached.model;
+            metrics.cached = metrics.cached ?? true;
+            if (metrics.firstTokenLatency === undefined) {
+              metrics.firstTokenLatency = performance.now() - translationStart;
+            }
+            send({ type: 'translation-delta', content: translation.translation, target });
+          } else {
+            const { model: servedModel, stream } = await createTranslationStream(translationRequest, upstream.signal);
+
+            // Report the provider that actually answered, which may be a fallback
+            metrics.model = servedModel;
+            metrics.cached = false;
+
+            const response = new TranslationResponseParser();
+            const content = translationContent(stream, {
+              onFirstToken: () => {
+                if (metrics.firstTokenLatency === undefined) {
+                  metrics.firstTokenLatency = performance.now() - translationStart;
+                }
+              },
+              // Parallel group translations would interleave their reasoning, so only the first streams it
+              onReasoning: withReasoning && index === 0
+                ? (delta) => send({ type: 'reasoning', content: delta })
+                : undefined
+            });
+
+            for await (const delta of content) {
+              const translationDelta = response.push(delta);
+              if (translationDelta) {
+                send({ type: 'translation-delta', content: translationDelta, target });
+              }
+            }
+
+            translation = await enforceGlossary(
+              translationRequest,
+              response.finish(translationRequest.languages, { direction }),
+              upstream.signal
+            );
+
+            // Only cache what the requested model produced; a fallback's answer may differ
+            if (servedModel === model) {
+              await cacheTranslation(translationRequest, { model: servedModel, result: translation });
+            }
+          }
+
+          // Back-translating costs another model call, so it only runs on request
+          if (withQualityCheck) {
+            translation = await withFidelity(translationRequest, translation, upstream.signal);
+          }
+
+          send({ type: 'translation-final', result: translation });
+          return translation;
+        };
+
+        const translations = await Promise.all(directions.map(translate));
+        metrics.translationLatency = performance.now() - translationStart;
+
+        // Speak each translation in turn; the chunks join into one clip for the client
+        const ttsConfig = getTTSConfig();
+        if (withTTS && ttsConfig) {
+          for (const translation of translations) {
+            const spokenText = prepareSpeechText(translation.translation);
+            if (!spokenText) continue;
+
+            const ttsBudget = await consumeRateLimit(req, 'ttsCharacters', spokenText.length);
+            if (!ttsBudget.allowed) {
+              send({ type: 'audio-error', error: `Speech budget exceeded, try again in ${ttsBudget.retryAfter}s` });
+              break;
+            }
+
+            const ttsStart = performance.now();
+            try {
+              const audioStream = await synthesizeSpeech(spokenText, ttsConfig, upstream.signal);
+              const reader = audioStream.getReader();
+
+              while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                send({ type: 'audio-chunk', data: encodeBase64(value), mimeType: 'audio/mpeg' });
+              }
+              metrics.ttsLatency = (metrics.ttsLatency || 0) + performance.now() - ttsStart;
+            } catch (error) {
+              // The client can still fall back to /api/speech/tts
+              console.error('Pipeline TTS error:', error);
+              send({ type: 'audio-error', error: error instanceof Error ? error.message : 'Failed to generate speech' });
+              break;
+            }
+          }
+
+          // The clip is complete; the client can start playing before metrics arrive
+          send({ type: 'audio-end' });
+        }
+
+        metrics.totalLatency = performance.now() - startTime;
+        console.log('Pipeline metrics:', metrics);
+        send({ type: 'metrics', metrics });
+        controller.enqueue(textEncoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (error) {
+        // Nobody is listening any more
+        if (upstream.signal.aborted) {
+          console.log('Pipeline cancelled by client');
+          return;
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Stream error occurred';
+        send({ type: 'error', error: errorMessage });
+        controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(readableStream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
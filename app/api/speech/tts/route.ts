@@ -1,8 +1,14 @@
 import { NextRequest } from 'next/server';
+import { getTTSConfig, synthesizeSpeech } from '@/lib/speech/tts';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { CircuitOpenError } from '@/lib/types';
 
 export const runtime = 'edge';
 
 export async function POST(req: NextRequest) {
+  const limited = await checkRateLimit(req, 'tts');
+  if (limited) return limited;
+
   const { text, language } = await req.json();
 
   if (!text) {
@@ -12,11 +18,13 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // ElevenLabs API configuration
-  const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
-  const VOICE_ID = process.env.ELEVENLABS_VOICE_ID;
+  // ElevenLabs bills per character, so long texts spend more of the budget
+  const overBudget = await checkRateLimit(req, 'ttsCharacters', String(text).length);
+  if (overBudget) return overBudget;
+
+  const ttsConfig = getTTSConfig();
 
-  if (!ELEVENLABS_API_KEY || !VOICE_ID) {
+  if (!ttsConfig) {
     return new Response(
       JSON.stringify({ error: 'Missing API configuration' }),
       { status: 500 }
@@ -24,52 +32,10 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${VOICE_ID}/stream`,
-      {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text,
-          model_id: "eleven_flash_v2_5",
-          // output_format: "mp3_22050_32",
-          // apply_text_normalization: "off",
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.24,
-            use_speaker_boost: true
-          }
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error('ElevenLabs API Error:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
-      });
-      
-      throw new Error(
-        errorData.detail || 
-        errorData.message || 
-        `API request failed with status ${response.status}`
-      );
-    }
-
-    // Ensure we have a readable stream
-    if (!response.body) {
-      throw new Error('No response body from ElevenLabs API');
-    }
+    const audioStream = await synthesizeSpeech(text, ttsConfig, req.signal);
 
     // Forward the audio stream from ElevenLabs
-    return new Response(response.body, {
+    return new Response(audioStream, {
       headers: {
         'Content-Type': 'audio/mpeg'
       },
@@ -82,7 +48,8 @@ export async function POST(req: NextRequest) {
         details: error instanceof Error ? error.message : 'Unknown error'
       }),
       { 
-        status: 500,
+        // An open circuit means ElevenLabs is failing right now, not that we are
+        status: error instanceof CircuitOpenError ? 503 : 500,
         headers: {
           'Content-Type': 'application/json'
         }
@@ -1,53 +1,67 @@
 import { NextRequest } from 'next/server';
-import OpenAI from 'openai';
-import { getModelConfig, PROMPT_TEMPLATES } from '@/lib/config/translation';
+import { createTranslationStream, translationContent, TranslationRequest } from '@/lib/translation/translate';
+import { TranslationResponseParser } from '@/lib/translation/response';
+import { enforceGlossary } from '@/lib/translation/glossary';
+import { withFidelity } from '@/lib/translation/quality';
+import { suggestAlternatives, withAlternatives } from '@/lib/translation/alternatives';
+import { parseContextMessages, parseSummary } from '@/lib/translation/memory';
+import { cacheTranslation, CachedTranslation, getCachedTranslation } from '@/lib/translation/cache';
+import { parseGlossary } from '@/lib/glossary';
+import { parseDirection, resolveDirection } from '@/lib/translation/direction';
+import { DEFAULT_MODEL, getAllowedModels, isModelAllowed } from '@/lib/config/translation';
+import { isRegister } from '@/lib/config/register';
+import { isDomain } from '@/lib/config/domains';
+import { QUALITY_CHECK } from '@/lib/config/quality';
+import { MAX_ALTERNATIVES, MIN_ALTERNATIVES } from '@/lib/config/alternatives';
+import { LanguagePair } from '@/lib/types';
+import { isLanguageGroup } from '@/lib/speech/language';
+import { checkRateLimit } from '@/lib/rate-limit';
 
 export const runtime = 'edge';
 
-// Retry configuration
-const MAX_RETRIES = 3;
-const INITIAL_RETRY_DELAY = 1000;
+// Replay a cached translation in the same event shape as a live one
+function cachedTranslationResponse({ model, result }: CachedTranslation, requestedModel: string, startTime: number) {
+  const latency = performance.now() - startTime;
+  const events = [
+    { metrics: { firstTokenLatency: latency } },
+    { content: result.translation },
+    { result },
+    { metrics: { totalLatency: latency, model, requestedModel, cached: true } },
+  ];
 
-// Get model configuration
-const modelConfig = getModelConfig();
-
-const client = new OpenAI({
-  baseURL: modelConfig.baseURL,
-  apiKey: modelConfig.apiKey,
-});
-
-// Smart retry function
-async function withRetry<T>(
-  operation: () => Promise<T>,
-  retryCount = 0
-): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    if (retryCount >= MAX_RETRIES) {
-      throw error;
-    }
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
 
-    if (
-      error.message?.includes('blocked') ||
-      error.message?.includes('network') ||
-      error.status === 403 ||
-      error.status === 503
-    ) {
-      const delay = INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(operation, retryCount + 1);
-    }
+// List the translation models this deployment lets clients pick from, and the one
+// offered for retranslating messages that fail the quality check
+export async function GET() {
+  const models = getAllowedModels();
+  const escalationModel = models.includes(QUALITY_CHECK.escalationModel) ? QUALITY_CHECK.escalationModel : undefined;
 
-    throw error;
-  }
+  return Response.json(
+    { models, defaultModel: DEFAULT_MODEL, escalationModel },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
 }
 
 export async function POST(req: NextRequest) {
-  const { text, languages, previousMessages } = await req.json();
+  const limited = await checkRateLimit(req, 'translate');
+  if (limited) return limited;
+
+  const body = await req.json();
+  const { languages, previousMessages, summary, vocabulary, model, reasoning, direction: requestedDirection, glossary, register, domain, qualityCheck, alternatives, alternativesFor } = body;
+  // Alternatives for a translation the client already has carry their own original
+  const text = alternativesFor ? alternativesFor.text : body.text;
   const startTime = performance.now();
 
-  if (!text || !languages || languages.length !== 2) {
+  if (!text || !isLanguageGroup(languages)) {
     return new Response(
       JSON.stringify({ error: 'Missing required fields or invalid languages array' }),
       { 
@@ -73,98 +87,214 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // Create context from previous messages
-  const contextMessages = previousMessages?.map((msg: any) => ({
-    role: 'assistant',
-    content: `Original: ${msg.originalText}\nTranslation: ${msg.translatedText}`
-  })) || [];
+  const modelName = model || DEFAULT_MODEL;
+  if (!isModelAllowed(modelName)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid translation model', details: `Model not available: ${modelName}` }),
+      { 
+        status: 400,
+        headers: {
+          'Cache-Control': 'no-store',
+        }
+      }
+    );
+  }
 
-  // Format conversation history for prompt
-  const conversationHistory = previousMessages?.map((msg: { originalText: any; translatedText: any; }) => 
-    `Original: ${msg.originalText}\nTranslation: ${msg.translatedText}`
-  ).join('\n') || '';
+  if (register !== undefined && !isRegister(register)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid register', details: `Unknown register: ${register}` }),
+      { 
+        status: 400,
+        headers: {
+          'Cache-Control': 'no-store',
+        }
+      }
+    );
+  }
 
-  // Select and format prompt based on model configuration
-  const promptTemplate = PROMPT_TEMPLATES[modelConfig.promptType];
-  const prompt = promptTemplate
-    .replace(/{FROM_LANG}/g, languages[0].name)
-    .replace(/{TO_LANG}/g, languages[1].name)
-    .replace(/{CONTEXT}/g, conversationHistory)
-    .replace(/{TEXT}/g, text);
+  if (domain !== undefined && !isDomain(domain)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid domain', details: `Unknown domain pack: ${domain}` }),
+      { 
+        status: 400,
+        headers: {
+          'Cache-Control': 'no-store',
+        }
+      }
+    );
+  }
 
-  console.log('Prompt:', prompt);
+  if (alternatives !== undefined && (
+    !Number.isInteger(alternatives) || alternatives < MIN_ALTERNATIVES || alternatives > MAX_ALTERNATIVES
+  )) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid alternatives', details: `Ask for ${MIN_ALTERNATIVES} to ${MAX_ALTERNATIVES} alternatives` }),
+      { 
+        status: 400,
+        headers: {
+          'Cache-Control': 'no-store',
+        }
+      }
+    );
+  }
 
-  try {
-    // Use retry logic for the stream creation
-    const stream = await withRetry(async () => {
-      return await client.chat.completions.create({
-        model: modelConfig.model,
-        messages: [
-          ...contextMessages,
-          {
-            role: 'user',
-            content: prompt
+  // Only alternatives wanted: phrase the existing translation differently, without
+  // translating again, caching or touching the summary
+  if (alternativesFor) {
+    const existingDirection = parseDirection(alternativesFor.direction, languages);
+    if (!existingDirection || typeof alternativesFor.translation !== 'string' || !alternativesFor.translation.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid alternatives request', details: 'alternativesFor needs the translation and its direction' }),
+        { 
+          status: 400,
+          headers: {
+            'Cache-Control': 'no-store',
           }
-        ],
-        temperature: modelConfig.temperature,
-        stream: true,
-      });
-    });
+        }
+      );
+    }
+
+    try {
+      const suggested = await suggestAlternatives(
+        { text, languages: [existingDirection.sourceLanguage, existingDirection.targetLanguage], model: modelName, domain },
+        { ...existingDirection, translation: alternativesFor.translation },
+        alternatives ?? MAX_ALTERNATIVES,
+        req.signal
+      );
+      return Response.json({ alternatives: suggested }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+      console.error('Alternative translations failed:', error instanceof Error ? error.message : error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to load alternative translations', details: error instanceof Error ? error.message : 'Unknown error' }),
+        { 
+          status: 502,
+          headers: {
+            'Cache-Control': 'no-store',
+          }
+        }
+      );
+    }
+  }
+
+  let direction: LanguagePair | null;
+  if (requestedDirection) {
+    direction = parseDirection(requestedDirection, languages);
+    if (!direction) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid translation direction', details: 'Direction must go between two conversation languages' }),
+        { 
+          status: 400,
+          headers: {
+            'Cache-Control': 'no-store',
+          }
+        }
+      );
+    }
+  } else if (languages.length === 2) {
+    direction = resolveDirection(cleanText, languages);
+  } else {
+    // With three or more languages the model can't guess which listener is meant
+    return new Response(
+      JSON.stringify({ error: 'Translation direction required', details: 'Group conversations must say which language to translate into' }),
+      { 
+        status: 400,
+        headers: {
+          'Cache-Control': 'no-store',
+        }
+      }
+    );
+  }
+
+  const translationRequest: TranslationRequest = {
+    text,
+    // Each translation in a group is between exactly two of its languages
+    languages: direction ? [direction.sourceLanguage, direction.targetLanguage] : languages,
+    previousMessages: parseContextMessages(previousMessages),
+    summary: parseSummary(summary),
+    vocabulary,
+    model: modelName,
+    direction,
+    glossary: parseGlossary(glossary),
+    register,
+    domain
+  };
+
+  try {
+    const cached = await getCachedTranslation(translationRequest);
+    if (cached) {
+      console.log('Translation cache hit:', cached.result.translation);
+      let result = qualityCheck === true
+        ? await withFidelity(translationRequest, cached.result, req.signal)
+        : cached.result;
+      if (alternatives) {
+        result = await withAlternatives(translationRequest, result, alternatives, req.signal);
+      }
+      return cachedTranslationResponse({ ...cached, result }, modelName, startTime);
+    }
+
+    // Cancel the provider stream when the client aborts or goes away, so a superseded
+    // utterance stops spending tokens
+    const upstream = new AbortController();
+    req.signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+    const { model: servedModel, stream } = await createTranslationStream(translationRequest, upstream.signal);
 
     // Create a new ReadableStream that will be our response
     const textEncoder = new TextEncoder();
     const readableStream = new ReadableStream({
       async start(controller) {
         try {
-          let firstChunkTime: number | null = null;
-          let accumulatedContent = '';
-          let isThinkingPhase = false;
-          let thinkingContent = '';
-          
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
-            if (content) {
-              if (!firstChunkTime) {
-                firstChunkTime = performance.now();
-                const firstTokenLatency = firstChunkTime - startTime;
-                console.log(`First token latency: ${firstTokenLatency}ms`);
-                
-                // Send metrics with the first chunk
-                const metricsMessage = `data: ${JSON.stringify({ 
-                  metrics: { firstTokenLatency } 
-                })}\n\n`;
-                controller.enqueue(textEncoder.encode(metricsMessage));
-              }
-
-              // Handle thinking phase content
-              if (content.includes('<think>')) {
-                isThinkingPhase = true;
-                continue;
-              }
-
-              if (isThinkingPhase) {
-                if (content.includes('</think>')) {
-                  isThinkingPhase = false;
-                  console.log('Thinking phase:', thinkingContent);
-                  thinkingContent = '';
-                  continue;
+          const response = new TranslationResponseParser();
+
+          const content = translationContent(stream, {
+            onFirstToken: () => {
+              const firstTokenLatency = performance.now() - startTime;
+              console.log(`First token latency: ${firstTokenLatency}ms`);
+
+              // Send metrics with the first chunk
+              const metricsMessage = `data: ${JSON.stringify({ 
+                metrics: { firstTokenLatency } 
+              })}\n\n`;
+              controller.enqueue(textEncoder.encode(metricsMessage));
+            },
+            // Reasoning is opt-in; most clients only want the translation
+            onReasoning: reasoning === true
+              ? (delta) => {
+                  controller.enqueue(textEncoder.encode(`data: ${JSON.stringify({ reasoning: delta })}\n\n`));
                 }
-                thinkingContent += content;
-                continue;
-              }
-
-              // Only accumulate non-thinking phase content
-              if (!isThinkingPhase) {
-                accumulatedContent += content;
-              }
+              : undefined
+          });
+
+          // Forward the translation field as soon as it arrives
+          for await (const delta of content) {
+            const translationDelta = response.push(delta);
+            if (translationDelta) {
+              const message = `data: ${JSON.stringify({ content: translationDelta })}\n\n`;
+              controller.enqueue(textEncoder.encode(message));
             }
           }
-          
-          // Send the complete accumulated content
-          if (accumulatedContent) {
-            console.log('Final translation:', accumulatedContent);
-            const message = `data: ${JSON.stringify({ content: accumulatedContent })}\n\n`;
-            controller.enqueue(textEncoder.encode(message));
+
+          // The validated result supersedes the streamed deltas
+          const translation = await enforceGlossary(
+            translationRequest,
+            response.finish(translationRequest.languages, { direction }),
+            upstream.signal
+          );
+          let result = qualityCheck === true
+            ? await withFidelity(translationRequest, translation, upstream.signal)
+            : translation;
+          console.log('Final translation:', result);
+
+          // Alternatives are per request, so they are sent but never cached
+          if (alternatives) {
+            result = await withAlternatives(translationRequest, result, alternatives, upstream.signal);
+          }
+          controller.enqueue(textEncoder.encode(`data: ${JSON.stringify({ result })}\n\n`));
+
+          // Only cache what the requested model produced; a fallback's answer may differ.
+          // The quality check is per request too, and a cache hit runs it again when asked.
+          if (servedModel === modelName) {
+            await cacheTranslation(translationRequest, { model: servedModel, result: translation });
           }
 
           // Send a completion message with final metrics
@@ -173,11 +303,17 @@ export async function POST(req: NextRequest) {
           console.log(`Total translation latency: ${totalLatency}ms`);
           
           controller.enqueue(textEncoder.encode(`data: ${JSON.stringify({ 
-            metrics: { totalLatency } 
+            metrics: { totalLatency, model: servedModel, requestedModel: modelName, cached: false } 
           })}\n\n`));
           controller.enqueue(textEncoder.encode('data: [DONE]\n\n'));
           controller.close();
         } catch (error) {
+          // Nobody is listening any more
+          if (upstream.signal.aborted) {
+            console.log('Translation cancelled by client');
+            return;
+          }
+
           // Enhanced error handling for stream
           const errorMessage = error instanceof Error ? error.message : 'Stream error occurred';
           const errorEvent = `data: ${JSON.stringify({ error: errorMessage })}\n\n`;
@@ -185,6 +321,9 @@ export async function POST(req: NextRequest) {
           controller.close();
         }
       },
+      cancel() {
+        upstream.abort();
+      },
     });
 
     // Return the stream with appropriate headers
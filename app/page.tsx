@@ -1,13 +1,24 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { Fragment, useState, useCallback, useRef, useEffect } from 'react';
 import { LanguageSelector } from '@/components/language-selector';
 import { MessageDisplay } from '@/components/message-display';
 import { useAudioRecorder } from '@/hooks/use-audio';
-import { Language } from '@/lib/types';
+import { FidelityCheck, GlossaryEntry, Language, TranslationAlternative } from '@/lib/types';
 import { VoiceSettings, VoiceSettings as VoiceSettingsType, defaultVoiceSettings, environmentPresets } from '@/components/voice-settings';
 import { Button } from '@/components/ui/button';
-import { translateText } from '@/lib/translate';
+import { runPipeline } from '@/lib/pipeline';
+import { requestAlternatives, translateText, updateConversationMemory } from '@/lib/translate';
+import { PipelineRequestError } from '@/lib/types';
+import { VocabularyEditor } from '@/components/vocabulary-editor';
+import { GlossaryEditor } from '@/components/glossary-editor';
+import { ModelSelector } from '@/components/model-selector';
+import { RegisterSelector } from '@/components/register-selector';
+import { DEFAULT_REGISTER, Register } from '@/lib/config/register';
+import { DomainSelector } from '@/components/domain-selector';
+import { DEFAULT_DOMAIN, getDomainPack } from '@/lib/config/domains';
+import { clearSession, loadSession, saveSession, sessionHeaders } from '@/lib/session';
+import { contextWindowStart } from '@/lib/translation/memory';
 import '@/styles/animations.css';
 
 interface Message {
@@ -17,6 +28,18 @@ interface Message {
   timestamp: number;
   sourceLang: string;
   targetLang: string;
+  notes?: string;
+  glossaryMissing?: GlossaryEntry[];
+  reasoning?: string;
+  fidelity?: FidelityCheck;
+  alternatives?: TranslationAlternative[];
+  translations?: {
+    targetLang: string;
+    translatedText: string;
+    notes?: string;
+    glossaryMissing?: GlossaryEntry[];
+    fidelity?: FidelityCheck;
+  }[];
   metrics?: {
     sttLatency?: number;
     translationLatency?: number;
@@ -31,18 +54,34 @@ export default function Home() {
   const [transcribedText, setTranscribedText] = useState<string>('');
   const [translatedText, setTranslatedText] = useState<string>('');
   const [messages, setMessages] = useState<Message[]>([]);
+  // Running summary of the oldest `summarizedCount` messages, kept up to date by the server
+  const [conversationSummary, setConversationSummary] = useState('');
+  const [summarizedCount, setSummarizedCount] = useState(0);
+  // Only the latest summary request may update the summary
+  const memoryRequestRef = useRef(0);
+  const [vocabulary, setVocabulary] = useState<string[]>([]);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [register, setRegister] = useState<Register>(DEFAULT_REGISTER);
+  const [domain, setDomain] = useState(DEFAULT_DOMAIN);
+  const [translationModels, setTranslationModels] = useState<string[]>([]);
+  const [translationModel, setTranslationModel] = useState<string | undefined>();
+  const [escalationModel, setEscalationModel] = useState<string | undefined>();
+  const [translatedAudio, setTranslatedAudio] = useState<Blob | null>(null);
+  const [isAudioPending, setIsAudioPending] = useState(false);
+  const [showReasoning, setShowReasoning] = useState(false);
+  const [flippingMessageId, setFlippingMessageId] = useState<string | null>(null);
+  const [qualityCheck, setQualityCheck] = useState(false);
+  const [retranslatingMessageId, setRetranslatingMessageId] = useState<string | null>(null);
+  const [alternativesMessageId, setAlternativesMessageId] = useState<string | null>(null);
   const processingRef = useRef(false);
+  // In-flight utterance; aborting it cancels its fetches and the server's provider streams
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [isInitialSetup, setIsInitialSetup] = useState(true);
   const [voiceSettings, setVoiceSettings] = useState<VoiceSettingsType>(defaultVoiceSettings);
   const [currentMode, setCurrentMode] = useState("Quiet Room");
   const [isTTSEnabled, setIsTTSEnabled] = useState(true);
   const [isModeMenuOpen, setIsModeMenuOpen] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const [metrics, setMetrics] = useState<{
-    sttLatency?: number;
-    translationLatency?: number;
-    totalLatency?: number;
-  }>({});
 
   // Initialize audio context early
   useEffect(() => {
@@ -75,10 +114,209 @@ export default function Home() {
     };
   }, []);
 
+  // Restore the last conversation settings
+  useEffect(() => {
+    const session = loadSession();
+    if (session) {
+      setSupportedLanguages(session.languages);
+      setVocabulary(session.vocabulary);
+      setGlossary(session.glossary);
+      setRegister(session.register);
+      setDomain(session.domain);
+      setTranslationModel(session.model);
+      setShowReasoning(session.reasoning ?? false);
+      setQualityCheck(session.qualityCheck ?? false);
+      setIsInitialSetup(false);
+    }
+  }, []);
+
+  // Load the translation models this deployment allows
+  useEffect(() => {
+    fetch('/api/translate')
+      .then(response => response.json())
+      .then(({ models, defaultModel, escalationModel }: { models: string[]; defaultModel: string; escalationModel?: string }) => {
+        setTranslationModels(models);
+        setEscalationModel(escalationModel);
+        // Drop a saved model that is no longer allowed
+        setTranslationModel(current => current && models.includes(current) ? current : defaultModel);
+      })
+      .catch(error => console.error('Failed to load translation models:', error));
+  }, []);
+
+  // Persist the languages and vocabulary together
+  useEffect(() => {
+    if (!isInitialSetup && supportedLanguages.length >= 2) {
+      saveSession({
+        languages: supportedLanguages,
+        vocabulary,
+        glossary,
+        register,
+        domain,
+        model: translationModel,
+        reasoning: showReasoning,
+        qualityCheck
+      });
+    }
+  }, [isInitialSetup, supportedLanguages, vocabulary, glossary, register, domain, translationModel, showReasoning, qualityCheck]);
+
+  // Drop whatever utterance is still being transcribed, translated or spoken
+  const cancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    processingRef.current = false;
+    setIsProcessing(false);
+    setIsAudioPending(false);
+  }, []);
+
+  const handleResetLanguages = () => {
+    cancelProcessing();
+    clearSession();
+    setSupportedLanguages([]);
+    setVocabulary([]);
+    setGlossary([]);
+    setRegister(DEFAULT_REGISTER);
+    setDomain(DEFAULT_DOMAIN);
+    setMessages([]);
+    memoryRequestRef.current++;
+    setConversationSummary('');
+    setSummarizedCount(0);
+    setTranscribedText('');
+    setTranslatedText('');
+    setIsInitialSetup(true);
+  };
+
+  // Retranslate a message the other way round when direction detection got it wrong
+  const handleFlipDirection = async (message: Message) => {
+    const sourceLanguage = supportedLanguages.find(language => language.code === message.targetLang);
+    const targetLanguage = supportedLanguages.find(language => language.code === message.sourceLang);
+    if (!sourceLanguage || !targetLanguage) return;
+
+    setFlippingMessageId(message.id);
+    try {
+      const index = messages.findIndex(m => m.id === message.id);
+      const result = await translateText(message.originalText, supportedLanguages, {
+        direction: { sourceLanguage, targetLanguage },
+        previousMessages: messages.slice(Math.max(0, index - 3), index),
+        vocabulary,
+        glossary,
+        register,
+        domain,
+        model: translationModel,
+        qualityCheck,
+      });
+
+      setMessages(prev => prev.map(m => m.id === message.id
+        ? {
+            ...m,
+            translatedText: result.translation,
+            sourceLang: result.sourceLanguage.code,
+            targetLang: result.targetLanguage.code,
+            notes: result.notes,
+            glossaryMissing: result.glossaryMissing,
+            fidelity: result.fidelity,
+            alternatives: undefined,
+            reasoning: undefined
+          }
+        : m
+      ));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to retranslate message');
+    } finally {
+      setFlippingMessageId(null);
+    }
+  };
+
+  // Retranslate a message that failed the quality check with the stronger model
+  const handleRetranslate = async (message: Message) => {
+    const sourceLanguage = supportedLanguages.find(language => language.code === message.sourceLang);
+    const targetLanguage = supportedLanguages.find(language => language.code === message.targetLang);
+    if (!sourceLanguage || !targetLanguage || !escalationModel) return;
+
+    setRetranslatingMessageId(message.id);
+    try {
+      const index = messages.findIndex(m => m.id === message.id);
+      const result = await translateText(message.originalText, supportedLanguages, {
+        direction: { sourceLanguage, targetLanguage },
+        previousMessages: messages.slice(Math.max(0, index - 3), index),
+        vocabulary,
+        glossary,
+        register,
+        domain,
+        model: escalationModel,
+        qualityCheck: true,
+      });
+
+      setMessages(prev => prev.map(m => m.id === message.id
+        ? {
+            ...m,
+            translatedText: result.translation,
+            notes: result.notes,
+            glossaryMissing: result.glossaryMissing,
+            fidelity: result.fidelity,
+            alternatives: undefined,
+            reasoning: undefined
+          }
+        : m
+      ));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to retranslate message');
+    } finally {
+      setRetranslatingMessageId(null);
+    }
+  };
+
+  // Fetch other phrasings of a message's translation for the user to pick from
+  const handleRequestAlternatives = async (message: Message) => {
+    const sourceLanguage = supportedLanguages.find(language => language.code === message.sourceLang);
+    const targetLanguage = supportedLanguages.find(language => language.code === message.targetLang);
+    if (!sourceLanguage || !targetLanguage) return;
+
+    setAlternativesMessageId(message.id);
+    try {
+      const suggested = await requestAlternatives(supportedLanguages, {
+        text: message.originalText,
+        translation: message.translatedText,
+        direction: { sourceLanguage, targetLanguage }
+      }, {
+        count: 3,
+        model: translationModel,
+        domain,
+      });
+
+      // Keep the current translation selectable so the user can go back to it
+      const alternatives = [
+        { label: 'Original', translation: message.translatedText },
+        ...suggested.filter(alternative => alternative.translation !== message.translatedText)
+      ];
+      setMessages(prev => prev.map(m => m.id === message.id ? { ...m, alternatives } : m));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load alternative translations');
+    } finally {
+      setAlternativesMessageId(null);
+    }
+  };
+
+  // Swap in the picked phrasing. It becomes the message's translation, so later
+  // requests get it as context, and is spoken again.
+  const handlePickAlternative = (message: Message, alternative: TranslationAlternative) => {
+    setMessages(prev => prev.map(m => m.id === message.id
+      ? { ...m, translatedText: alternative.translation, fidelity: undefined }
+      : m
+    ));
+    setTranscribedText(message.originalText);
+    setTranslatedAudio(null);
+    setIsAudioPending(false);
+    setTranslatedText(alternative.translation);
+  };
+
   const processAudio = async (audioBlob: Blob) => {
+    // A new utterance barges in on the one still in flight
     if (processingRef.current) {
-      return;
+      console.log('New utterance, cancelling the previous one');
+      abortControllerRef.current?.abort();
     }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     // Check if the audio is too short (less than 0.3 seconds)
     if (audioBlob.size < 10000) {  // 0.3s of audio at 128kbps
@@ -94,12 +332,17 @@ export default function Home() {
 
       const formData = new FormData();
       formData.append('audio', audioBlob, 'audio.webm');
+      if (vocabulary.length > 0) {
+        formData.append('vocabulary', JSON.stringify(vocabulary));
+      }
 
       if (isInitialSetup) {
         // Initial language detection phase
         const transcriptionResponse = await fetch('/api/speech', {
           method: 'POST',
+          headers: sessionHeaders(),
           body: formData,
+          signal: controller.signal,
         });
 
         const transcriptionData = await transcriptionResponse.json();
@@ -127,13 +370,15 @@ export default function Home() {
 
         setTranscribedText(transcriptionData.text);
 
-        // detect two languages
+        // detect the conversation's languages
         const languageResponse = await fetch('/api/language', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...sessionHeaders(),
           },
           body: JSON.stringify({ text: transcriptionData.text }),
+          signal: controller.signal,
         });
 
         const languageData = await languageResponse.json();
@@ -142,89 +387,127 @@ export default function Home() {
           throw new Error(languageData.error || 'Failed to detect languages');
         }
         
-        setSupportedLanguages([
+        setSupportedLanguages(languageData.languages ?? [
           languageData.sourceLanguage,
           languageData.targetLanguage
         ]);
         setIsInitialSetup(false);
       } else {
-        // Translation phase
-        formData.append('languages', JSON.stringify(supportedLanguages));
-        const transcriptionResponse = await fetch('/api/speech', {
-          method: 'POST',
-          body: formData,
-        });
-
-        const transcriptionData = await transcriptionResponse.json();
+        // Translation phase: STT, translation and TTS in a single streaming request
+        // Send every turn the summary doesn't cover yet; the server keeps what fits its
+        // model's budget and leaves the rest to the summary
+        const contextStart = contextWindowStart(messages.length, summarizedCount);
 
-        if (!transcriptionResponse.ok) {
-          if (transcriptionData.error === 'Low quality speech detected' || 
-              transcriptionData.error === 'No speech detected' ||
-              transcriptionData.error === 'Transcription too short') {
-            console.log('Ignoring low quality audio:', transcriptionData.error);
-            return;
-          }
-          throw new Error(transcriptionData.details || transcriptionData.error || 'Failed to transcribe audio');
-        }
-
-        setTranscribedText(transcriptionData.text);
-        
-        // Store STT metrics
-        if (transcriptionData.metrics) {
-          setMetrics(prev => ({
-            ...prev,
-            sttLatency: transcriptionData.metrics.sttLatency
-          }));
-        }
-
-        // Use streaming translation
-        const translation = await translateText(
-          transcriptionData.text, 
-          supportedLanguages,
-          {
+        // Latencies for this turn, as reported by the pipeline's metrics event
+        let turnMetrics: Message['metrics'];
+        let result;
+        try {
+          result = await runPipeline(audioBlob, supportedLanguages, {
+            previousMessages: messages.slice(contextStart),
+            summary: conversationSummary,
+            signal: controller.signal,
+            vocabulary,
+            glossary,
+            register,
+            domain,
+            model: translationModel,
+            tts: isTTSEnabled,
+            reasoning: showReasoning,
+            qualityCheck,
+            onTranscript: (transcript) => {
+              setTranscribedText(transcript.text);
+              // Hold LanguageSelector's own TTS request until the pipeline's audio arrives
+              setTranslatedAudio(null);
+              setIsAudioPending(isTTSEnabled);
+            },
             onPartial: (partialTranslation) => {
               setTranslatedText(partialTranslation);
             },
+            onAudio: (audio) => {
+              setTranslatedAudio(audio);
+              setIsAudioPending(false);
+            },
             onMetrics: (metrics) => {
-              setMetrics(prev => ({
-                ...prev,
-                translationLatency: metrics.totalLatency,
-                totalLatency: performance.now() - startTime
-              }));
-              
-              // Log complete metrics
-              console.log('End-to-end Metrics:', {
+              turnMetrics = {
                 sttLatency: metrics.sttLatency,
-                translationLatency: metrics.totalLatency,
+                translationLatency: metrics.translationLatency,
                 totalLatency: performance.now() - startTime
-              });
-            },
-            previousMessages: messages.slice(-3) // Send last 3 messages as context
+              };
+
+              // Log complete metrics
+              console.log('End-to-end Metrics:', metrics);
+            }
+          });
+        } catch (error) {
+          if (error instanceof PipelineRequestError && (
+              error.error === 'Low quality speech detected' || 
+              error.error === 'No speech detected' ||
+              error.error === 'Speech too short')) {
+            console.log('Ignoring low quality audio:', error.error);
+            return;
           }
-        );
+          throw error;
+        }
 
+        // In a group the first translation is the headline; the rest sit under it
+        const [translation, ...others] = result.translations;
         const newMessage: Message = {
           id: Date.now().toString(),
-          originalText: transcriptionData.text,
-          translatedText: translation,
+          originalText: result.transcript.text,
+          translatedText: translation.translation,
           timestamp: Date.now(),
-          sourceLang: transcriptionData.language,
-          targetLang: supportedLanguages[1].code,
-          metrics: {
-            sttLatency: transcriptionData.metrics?.sttLatency,
-            translationLatency: metrics.translationLatency,
-            totalLatency: metrics.totalLatency
-          }
+          sourceLang: translation.sourceLanguage.code,
+          targetLang: translation.targetLanguage.code,
+          notes: translation.notes,
+          glossaryMissing: translation.glossaryMissing,
+          fidelity: translation.fidelity,
+          reasoning: result.reasoning,
+          translations: others.length > 0
+            ? others.map(other => ({
+                targetLang: other.targetLanguage.code,
+                translatedText: other.translation,
+                notes: other.notes,
+                glossaryMissing: other.glossaryMissing,
+                fidelity: other.fidelity
+              }))
+            : undefined,
+          metrics: turnMetrics
         };
 
         setMessages(prev => [...prev, newMessage]);
+
+        // Fold turns that no longer fit into the summary in the background, once the
+        // translation and its audio are already out
+        // The new turn counts towards the cap, so the window may start one turn later
+        const memoryRequest = ++memoryRequestRef.current;
+        const memoryStart = contextWindowStart(messages.length + 1, summarizedCount);
+        updateConversationMemory(supportedLanguages, {
+          previousMessages: [...messages, newMessage].slice(memoryStart),
+          summary: conversationSummary,
+          model: translationModel
+        })
+          .then(memory => {
+            if (memory && memoryRequest === memoryRequestRef.current) {
+              setConversationSummary(memory.summary);
+              setSummarizedCount(memoryStart + memory.summarizedTurns);
+            }
+          })
+          .catch(error => console.error('Conversation summary failed:', error));
       }
     } catch (error) {
+      // Superseded work fails with an AbortError that nobody needs to see
+      if (controller.signal.aborted) return;
+
       const message = error instanceof Error ? error.message : 'An unknown error occurred';
       setError(message);
     } finally {
-      processingRef.current = false;
-      setIsProcessing(false);
+      // A newer utterance owns the processing state now
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        processingRef.current = false;
+        setIsProcessing(false);
+        setIsAudioPending(false);
+      }
     }
   };
 
@@ -235,6 +518,12 @@ export default function Home() {
     smoothingTimeConstant: voiceSettings.smoothingTimeConstant,
   });
 
+  // Stopping the microphone also stops work on the last utterance
+  const handleStopListening = () => {
+    cancelProcessing();
+    stopListening();
+  };
+
   const handleVoiceSettingsChange = (newSettings: VoiceSettingsType) => {
     setVoiceSettings(newSettings);
     
@@ -277,28 +566,79 @@ export default function Home() {
       </div>
       <div className={`w-full md:max-w-none max-w-md space-y-8 ${isInitialSetup ? 'mt-16' : 'mt-12'}`}>
         {isInitialSetup ? (
-          <LanguageSelector
-            isRecording={isRecording}
-            isListening={isListening}
-            isProcessing={isProcessing}
-            onListeningStart={startListening}
-            onListeningStop={stopListening}
-            transcribedText={transcribedText}
-            showWelcomeMessage={true}
-            isTTSEnabled={isTTSEnabled}
-          />
+          <>
+            <DomainSelector
+              currentDomain={domain}
+              onDomainChange={setDomain}
+            />
+            <LanguageSelector
+              isRecording={isRecording}
+              isListening={isListening}
+              isProcessing={isProcessing}
+              onListeningStart={startListening}
+              onListeningStop={handleStopListening}
+              onCancel={cancelProcessing}
+              transcribedText={transcribedText}
+              showWelcomeMessage={true}
+              isTTSEnabled={isTTSEnabled}
+            />
+          </>
         ) : (
           <>
-            <div className="flex justify-center mb-14">
-              <div className="inline-flex items-center gap-4 py-1">
-                <span className="text-[10px] tracking-[0.25em] uppercase text-neutral-900 font-light">
-                  {supportedLanguages[0].name}
-                </span>
-                <span className="text-[8px] tracking-[0.2em] text-neutral-400 font-light">⟷</span>
-                <span className="text-[10px] tracking-[0.25em] uppercase text-neutral-900 font-light">
-                  {supportedLanguages[1].name}
+            <div className="flex flex-col items-center gap-3 mb-14">
+              <button
+                className="inline-flex items-center gap-4 py-1"
+                onClick={handleResetLanguages}
+                title="Change languages"
+              >
+                {supportedLanguages.map((language, index) => (
+                  <Fragment key={language.code}>
+                    {index > 0 && (
+                      <span className="text-[8px] tracking-[0.2em] text-neutral-400 font-light">⟷</span>
+                    )}
+                    <span className="text-[10px] tracking-[0.25em] uppercase text-neutral-900 font-light">
+                      {language.name}
+                    </span>
+                  </Fragment>
+                ))}
+              </button>
+              <div className="inline-flex items-center gap-3">
+                <span className="text-[9px] tracking-[0.25em] uppercase text-neutral-500 font-light">
+                  {getDomainPack(domain).label}
                 </span>
+                <span className="text-[8px] text-neutral-300">·</span>
+                <RegisterSelector
+                  currentRegister={register}
+                  onRegisterChange={setRegister}
+                />
               </div>
+              <ModelSelector
+                models={translationModels}
+                currentModel={translationModel}
+                onModelChange={setTranslationModel}
+              />
+              <button
+                className={`text-[9px] tracking-[0.25em] uppercase font-light ${showReasoning ? 'text-neutral-900' : 'text-neutral-400'}`}
+                onClick={() => setShowReasoning(!showReasoning)}
+                title="Keep the model's reasoning with each message"
+              >
+                Reasoning · {showReasoning ? 'On' : 'Off'}
+              </button>
+              <button
+                className={`text-[9px] tracking-[0.25em] uppercase font-light ${qualityCheck ? 'text-neutral-900' : 'text-neutral-400'}`}
+                onClick={() => setQualityCheck(!qualityCheck)}
+                title="Back-translate each message and flag ones that may have lost meaning"
+              >
+                Quality check · {qualityCheck ? 'On' : 'Off'}
+              </button>
+              <VocabularyEditor
+                vocabulary={vocabulary}
+                onVocabularyChange={setVocabulary}
+              />
+              <GlossaryEditor
+                glossary={glossary}
+                onGlossaryChange={setGlossary}
+              />
             </div>
             
             <LanguageSelector
@@ -306,15 +646,26 @@ export default function Home() {
               isListening={isListening}
               isProcessing={isProcessing}
               onListeningStart={startListening}
-              onListeningStop={stopListening}
+              onListeningStop={handleStopListening}
+              onCancel={cancelProcessing}
               transcribedText={transcribedText}
               translatedText={translatedText}
+              translatedAudio={translatedAudio}
+              isAudioPending={isAudioPending}
               isTTSEnabled={isTTSEnabled}
             />
 
             <MessageDisplay 
               messages={messages} 
-              currentLanguage={supportedLanguages[0].name}
+              currentLanguage={supportedLanguages[0].code}
+              flippingMessageId={flippingMessageId}
+              // Flipping only makes sense with a single other language
+              onFlipDirection={supportedLanguages.length === 2 ? handleFlipDirection : undefined}
+              retranslatingMessageId={retranslatingMessageId}
+              onRetranslate={escalationModel ? handleRetranslate : undefined}
+              alternativesMessageId={alternativesMessageId}
+              onRequestAlternatives={handleRequestAlternatives}
+              onPickAlternative={handlePickAlternative}
             />
           </>
         )}
@@ -0,0 +1,66 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { DOMAIN_PACKS, getDomainPack } from "@/lib/config/domains";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+  DropdownMenuItem,
+} from "@/components/ui/dropdown-menu";
+
+interface DomainSelectorProps {
+  currentDomain: string;
+  onDomainChange: (domain: string) => void;
+}
+
+// Picks the prompt pack before the first utterance sets up the conversation
+export function DomainSelector({ currentDomain, onDomainChange }: DomainSelectorProps) {
+  return (
+    <div className="flex justify-center">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="h-auto p-0"
+            title="Conversation setting"
+          >
+            <div className="text-[9px] tracking-[0.25em] uppercase text-neutral-400 font-light">
+              {getDomainPack(currentDomain).label}
+            </div>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="center"
+          className="w-[240px] border-none rounded-xl bg-white/80 backdrop-blur-sm"
+          sideOffset={8}
+        >
+          {Object.entries(DOMAIN_PACKS).map(([domain, pack]) => (
+            <DropdownMenuItem
+              key={domain}
+              className={cn(
+                "flex flex-col items-start gap-1 py-3 cursor-pointer",
+                "transition-colors rounded-lg mx-1",
+                "first:mt-1 last:mb-1 hover:bg-neutral-100",
+                domain === currentDomain ? "text-neutral-900" : "text-neutral-500"
+              )}
+              onClick={() => onDomainChange(domain)}
+            >
+              <span className={cn(
+                "text-[11px] tracking-[0.2em] uppercase",
+                domain === currentDomain && "font-medium"
+              )}>
+                {pack.label}
+              </span>
+              <span className="text-[10px] leading-[1.3] text-neutral-400 font-light">
+                {pack.description}
+              </span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
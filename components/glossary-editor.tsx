@@ -0,0 +1,121 @@
+"use client";
+
+import * as React from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_GLOSSARY_ENTRIES } from "@/lib/glossary";
+import { GlossaryEntry } from "@/lib/types";
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (glossary: GlossaryEntry[]) => void;
+}
+
+const inputClassName = cn(
+  "w-full bg-transparent border-b border-neutral-200 py-1",
+  "text-[12px] tracking-[0.1em] text-neutral-900 font-light",
+  "placeholder:text-neutral-300 focus:outline-none focus:border-neutral-900"
+);
+
+export function GlossaryEditor({ glossary, onGlossaryChange }: GlossaryEditorProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [source, setSource] = React.useState("");
+  const [target, setTarget] = React.useState("");
+  // Source term of the entry being edited, if any
+  const [editing, setEditing] = React.useState<string | null>(null);
+
+  const resetDraft = () => {
+    setSource("");
+    setTarget("");
+    setEditing(null);
+  };
+
+  const saveEntry = () => {
+    const entry = { source: source.trim(), target: target.trim() };
+    if (!entry.source || !entry.target) return;
+
+    const others = glossary.filter(existing =>
+      existing.source !== editing &&
+      existing.source.toLowerCase() !== entry.source.toLowerCase()
+    );
+    if (others.length >= MAX_GLOSSARY_ENTRIES) return;
+
+    // Edits keep their place in the list
+    const index = glossary.findIndex(existing => existing.source === editing);
+    const next = [...others];
+    next.splice(index >= 0 ? index : next.length, 0, entry);
+    onGlossaryChange(next);
+    resetDraft();
+  };
+
+  const editEntry = (entry: GlossaryEntry) => {
+    setSource(entry.source);
+    setTarget(entry.target);
+    setEditing(entry.source);
+  };
+
+  const removeEntry = (entry: GlossaryEntry) => {
+    onGlossaryChange(glossary.filter(existing => existing.source !== entry.source));
+    if (editing === entry.source) resetDraft();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      saveEntry();
+    } else if (e.key === "Escape") {
+      resetDraft();
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center px-8">
+      <button
+        className="text-[9px] tracking-[0.25em] uppercase text-neutral-400 font-light"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Glossary{glossary.length > 0 && ` · ${glossary.length}`}
+      </button>
+
+      {isOpen && (
+        <div className="w-full max-w-[280px] mt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Term"
+              className={inputClassName}
+            />
+            <span className="text-[10px] text-neutral-300">→</span>
+            <input
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Always translate as"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {glossary.map(entry => (
+              <span
+                key={entry.source}
+                className={cn(
+                  "inline-flex items-center gap-1 rounded-full px-3 py-1 text-[11px] text-neutral-700",
+                  editing === entry.source ? "bg-neutral-200" : "bg-neutral-100"
+                )}
+              >
+                <button onClick={() => editEntry(entry)} title="Edit">
+                  {entry.source} → {entry.target}
+                </button>
+                <button onClick={() => removeEntry(entry)} aria-label={`Remove ${entry.source}`}>
+                  <X className="w-3 h-3 text-neutral-400" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
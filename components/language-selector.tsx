@@ -2,17 +2,21 @@ import { Button } from './ui/button';
 import { Mic, Loader2, Volume2 } from 'lucide-react';
 import { useEffect, useState, useRef } from 'react';
 import Link from 'next/link';
+import { sessionHeaders } from '@/lib/session';
 
 interface LanguageSelectorProps {
   // onRecordingStart: () => void;
   // onRecordingStop: () => void;
   onListeningStart: () => void;
   onListeningStop: () => void;
+  onCancel?: () => void; // abandon the utterance being processed
   isRecording: boolean;
   isListening: boolean;
   isProcessing?: boolean;
   transcribedText?: string;
   translatedText?: string;
+  translatedAudio?: Blob | null; // Pre-generated speech for translatedText, e.g. from /api/pipeline
+  isAudioPending?: boolean;
   showWelcomeMessage?: boolean;
   // currentMode?: string;
   isTTSEnabled: boolean;
@@ -23,11 +27,14 @@ export function LanguageSelector({
   // onRecordingStop,
   onListeningStart,
   onListeningStop,
+  onCancel,
   isRecording,
   isListening,
   isProcessing = false,
   transcribedText,
   translatedText,
+  translatedAudio = null,
+  isAudioPending = false,
   showWelcomeMessage = false,
   // currentMode = "Quiet Room",
   isTTSEnabled
@@ -152,7 +159,8 @@ export function LanguageSelector({
 
   // Handle TTS playback
   useEffect(() => {
-    if (!translatedText || !isTTSEnabled) return;
+    // Wait for speech that is already on its way instead of requesting it twice
+    if (!translatedText || !isTTSEnabled || isAudioPending) return;
 
     // Try to resume audio context and play silent audio first
     const prepareAudio = async () => {
@@ -177,7 +185,7 @@ export function LanguageSelector({
     }, TRANSLATION_WAIT_TIME);
 
     return () => clearTimeout(timeoutId);
-  }, [translatedText, isTTSEnabled, audioContext]);
+  }, [translatedText, translatedAudio, isAudioPending, isTTSEnabled, audioContext]);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -331,31 +339,34 @@ export function LanguageSelector({
       // Store audio reference
       audioRef.current = audio;
 
-      // Create abort controller for the fetch request
-      abortControllerRef.current = new AbortController();
-      
-      // Get clean text without emojis
-      const cleanText = translatedText.includes('---') 
-        ? removeEmojis(translatedText.split('---').pop()?.trim() || '')
-        : removeEmojis(translatedText.trim());
-      
-      const response = await fetch('/api/speech/tts', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: cleanText,
-        }),
-        signal: abortControllerRef.current.signal,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to generate speech');
-      }
+      let audioBlob = translatedAudio;
+
+      if (!audioBlob) {
+        // Create abort controller for the fetch request
+        abortControllerRef.current = new AbortController();
+        
+        // Get clean text without emojis
+        const cleanText = removeEmojis(translatedText.trim());
+        
+        const response = await fetch('/api/speech/tts', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...sessionHeaders(),
+          },
+          body: JSON.stringify({
+            text: cleanText,
+          }),
+          signal: abortControllerRef.current.signal,
+        });
 
-      const audioBlob = await response.blob();
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.details || errorData.error || 'Failed to generate speech');
+        }
+
+        audioBlob = await response.blob();
+      }
       
       if (!audioBlob.type.startsWith('audio/')) {
         throw new Error(`Invalid audio format: ${audioBlob.type}`);
@@ -395,7 +406,9 @@ export function LanguageSelector({
   };
 
   const handleButtonClick = () => {
-    if (isListening) {
+    if (isProcessing) {
+      onCancel?.();
+    } else if (isListening) {
       onListeningStop();
     } else {
       onListeningStart();
@@ -460,10 +473,8 @@ export function LanguageSelector({
           </p>
           {(translatedText) && (
             <div className="flex flex-col items-center space-y-2">
-              <p className="text-[20px] tracking-[0.1em] text-neutral-900 font-light">
-                {translatedText.includes('---') 
-                  ? translatedText.split('---').pop()?.trim() 
-                  : translatedText.trim()}
+              <p className="text-[20px] tracking-[0.1em] text-neutral-900 font-light whitespace-pre-line">
+                {translatedText.trim()}
               </p>
               {isTTSEnabled && (
                 <button
@@ -510,7 +521,8 @@ export function LanguageSelector({
             ${isScrolled ? 'scale-95' : 'scale-100'}
           `}
           onClick={handleButtonClick}
-          disabled={isProcessing}
+          disabled={isProcessing && !onCancel}
+          title={isProcessing && onCancel ? 'Cancel' : undefined}
         >
           {isProcessing ? (
             <Loader2 className="w-6 h-6 text-neutral-900 animate-spin" />
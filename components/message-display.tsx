@@ -1,3 +1,7 @@
+import { useState } from 'react';
+import { FidelityCheck, GlossaryEntry, TranslationAlternative } from '@/lib/types';
+import { QUALITY_CHECK } from '@/lib/config/quality';
+
 interface Message {
   id: string;
   originalText: string;
@@ -5,14 +9,63 @@ interface Message {
   sourceLang: string;
   targetLang: string;
   timestamp: number;
+  notes?: string;
+  glossaryMissing?: GlossaryEntry[];
+  reasoning?: string;
+  fidelity?: FidelityCheck;
+  alternatives?: TranslationAlternative[];
+  translations?: MessageTranslation[]; // the other listeners' languages in a group conversation
+}
+
+interface MessageTranslation {
+  targetLang: string;
+  translatedText: string;
+  notes?: string;
+  glossaryMissing?: GlossaryEntry[];
+  fidelity?: FidelityCheck;
 }
 
 interface MessageDisplayProps {
   messages: Message[];
   currentLanguage: string;
+  flippingMessageId?: string | null;
+  onFlipDirection?: (message: Message) => void;
+  retranslatingMessageId?: string | null;
+  onRetranslate?: (message: Message) => void; // offered on messages that fail the quality check
+  alternativesMessageId?: string | null;
+  onRequestAlternatives?: (message: Message) => void;
+  onPickAlternative?: (message: Message, alternative: TranslationAlternative) => void;
+}
+
+function isLowFidelity(fidelity: FidelityCheck) {
+  return fidelity.score < QUALITY_CHECK.lowScore;
 }
 
-export function MessageDisplay({ messages, currentLanguage }: MessageDisplayProps) {
+export function MessageDisplay({
+  messages,
+  currentLanguage,
+  flippingMessageId,
+  onFlipDirection,
+  retranslatingMessageId,
+  onRetranslate,
+  alternativesMessageId,
+  onRequestAlternatives,
+  onPickAlternative
+}: MessageDisplayProps) {
+  const [expandedMessageId, setExpandedMessageId] = useState<string | null>(null);
+
+  // Tapping a translation opens its alternatives, fetching them the first time
+  const toggleAlternatives = (message: Message) => {
+    if (expandedMessageId === message.id) {
+      setExpandedMessageId(null);
+      return;
+    }
+    setExpandedMessageId(message.id);
+    if (!message.alternatives) {
+      onRequestAlternatives?.(message);
+    }
+  };
+
   // Sort messages by timestamp
   const sortedMessages = [...messages].sort((a, b) => a.timestamp - b.timestamp);
 
@@ -60,6 +113,10 @@ export function MessageDisplay({ messages, currentLanguage }: MessageDisplayProp
         const showTimestamp = index === sortedMessages.length - 1 || 
           new Date(sortedMessages[index + 1]?.timestamp).getTime() - new Date(message.timestamp).getTime() > 60000;
         
+        // Alternatives are phrasings of a single translation, so groups go without
+        const hasAlternatives = !!onRequestAlternatives && !message.translations;
+        const isExpanded = hasAlternatives && expandedMessageId === message.id;
+
         const nextMessage = sortedMessages[index + 1];
         const isNextMessageDifferentSender = nextMessage && 
           (nextMessage.sourceLang === currentLanguage) !== isSentByUser;
@@ -78,20 +135,139 @@ export function MessageDisplay({ messages, currentLanguage }: MessageDisplayProp
             <div className={`flex ${isSentByUser ? 'justify-end' : 'justify-start'}`}>
               <div className={`relative max-w-[240px] ${isSentByUser ? 'send-bubble' : 'receive-bubble'}`}>
                 <p className="text-[15px] font-medium leading-[1.3]">
-                  {message.originalText.includes('---') 
-                    ? message.originalText.split('---').pop()?.trim()
-                    : message.originalText.trim()}
+                  {message.originalText.trim()}
                 </p>
-                <p className={`
-                  text-[15px] font-light leading-[1.3] mt-2
-                  ${isSentByUser ? 'text-blue-50/90' : 'text-gray-600/90'}
-                `}>
-                  {message.translatedText.includes('---') 
-                    ? message.translatedText.split('---').pop()?.trim()
-                    : message.translatedText.trim()}
+                <p
+                  className={`
+                    text-[15px] font-light leading-[1.3] mt-2
+                    ${isSentByUser ? 'text-blue-50/90' : 'text-gray-600/90'}
+                    ${hasAlternatives ? 'cursor-pointer' : ''}
+                  `}
+                  onClick={hasAlternatives ? () => toggleAlternatives(message) : undefined}
+                  title={hasAlternatives ? 'Show other ways to say this' : undefined}
+                >
+                  {message.translations && message.translations.length > 0 && (
+                    <span className="mr-1.5 text-[9px] tracking-[0.2em] uppercase opacity-70">{message.targetLang}</span>
+                  )}
+                  {message.translatedText.trim()}
                 </p>
+                {isExpanded && (
+                  <div className="mt-2 space-y-1">
+                    {alternativesMessageId === message.id && (
+                      <p className={`text-[9px] tracking-[0.2em] uppercase font-light ${isSentByUser ? 'text-blue-100/80' : 'text-neutral-400'}`}>
+                        Finding alternatives…
+                      </p>
+                    )}
+                    {message.alternatives?.map(alternative => (
+                      <button
+                        key={alternative.label}
+                        className={`
+                          block w-full text-left rounded px-2 py-1 text-[13px] font-light leading-[1.3]
+                          ${alternative.translation === message.translatedText
+                            ? (isSentByUser ? 'bg-white/20' : 'bg-neutral-200/70')
+                            : (isSentByUser ? 'hover:bg-white/10' : 'hover:bg-neutral-200/40')}
+                        `}
+                        onClick={() => onPickAlternative?.(message, alternative)}
+                      >
+                        <span className="block text-[9px] tracking-[0.2em] uppercase opacity-70">{alternative.label}</span>
+                        {alternative.translation}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {message.translations?.map(translation => (
+                  <div key={translation.targetLang}>
+                    <p className={`
+                      text-[15px] font-light leading-[1.3] mt-1
+                      ${isSentByUser ? 'text-blue-50/90' : 'text-gray-600/90'}
+                    `}>
+                      <span className="mr-1.5 text-[9px] tracking-[0.2em] uppercase opacity-70">{translation.targetLang}</span>
+                      {translation.translatedText.trim()}
+                    </p>
+                    {translation.glossaryMissing && translation.glossaryMissing.length > 0 && (
+                      <p className={`
+                        text-[11px] font-light leading-[1.3] mt-1
+                        ${isSentByUser ? 'text-amber-200' : 'text-amber-600'}
+                      `}>
+                        Missing glossary term: {translation.glossaryMissing.map(entry => `${entry.source} → ${entry.target}`).join(', ')}
+                      </p>
+                    )}
+                    {translation.fidelity && isLowFidelity(translation.fidelity) && (
+                      <p className={`
+                        text-[11px] font-light leading-[1.3] mt-1
+                        ${isSentByUser ? 'text-amber-200' : 'text-amber-600'}
+                      `}>
+                        May have lost meaning ({translation.fidelity.score}/100): “{translation.fidelity.backTranslation}”
+                      </p>
+                    )}
+                  </div>
+                ))}
+                {message.notes && (
+                  <p className={`
+                    text-[11px] font-light italic leading-[1.3] mt-1
+                    ${isSentByUser ? 'text-blue-100/80' : 'text-neutral-400'}
+                  `}>
+                    {message.notes}
+                  </p>
+                )}
+                {message.glossaryMissing && message.glossaryMissing.length > 0 && (
+                  <p className={`
+                    text-[11px] font-light leading-[1.3] mt-1
+                    ${isSentByUser ? 'text-amber-200' : 'text-amber-600'}
+                  `}>
+                    Missing glossary term: {message.glossaryMissing.map(entry => `${entry.source} → ${entry.target}`).join(', ')}
+                  </p>
+                )}
+                {message.fidelity && isLowFidelity(message.fidelity) && (
+                  <p className={`
+                    text-[11px] font-light leading-[1.3] mt-1
+                    ${isSentByUser ? 'text-amber-200' : 'text-amber-600'}
+                  `}>
+                    May have lost meaning ({message.fidelity.score}/100). Back-translation: “{message.fidelity.backTranslation}”
+                  </p>
+                )}
+                {message.reasoning && (
+                  <details className="mt-2">
+                    <summary className={`
+                      cursor-pointer list-none text-[9px] tracking-[0.2em] uppercase font-light
+                      ${isSentByUser ? 'text-blue-100/80' : 'text-neutral-400'}
+                    `}>
+                      Why this translation
+                    </summary>
+                    <p className={`
+                      mt-1 whitespace-pre-wrap text-[12px] font-light leading-[1.4]
+                      ${isSentByUser ? 'text-blue-50/80' : 'text-gray-500'}
+                    `}>
+                      {message.reasoning.trim()}
+                    </p>
+                  </details>
+                )}
               </div>
             </div>
+            {(onFlipDirection || (onRetranslate && message.fidelity && isLowFidelity(message.fidelity))) && (
+              <div className={`flex gap-2 mt-1 ${isSentByUser ? 'justify-end' : 'justify-start'}`}>
+                {onRetranslate && message.fidelity && isLowFidelity(message.fidelity) && (
+                  <button
+                    className="px-1 text-[9px] tracking-[0.2em] uppercase text-amber-500 hover:text-amber-700 font-light disabled:opacity-50"
+                    onClick={() => onRetranslate(message)}
+                    disabled={!!retranslatingMessageId}
+                    title="Translate again with a stronger model"
+                  >
+                    {retranslatingMessageId === message.id ? 'Retranslating…' : '↻ Retranslate with stronger model'}
+                  </button>
+                )}
+                {onFlipDirection && (
+                  <button
+                    className="px-1 text-[9px] tracking-[0.2em] uppercase text-neutral-300 hover:text-neutral-500 font-light disabled:opacity-50"
+                    onClick={() => onFlipDirection(message)}
+                    disabled={!!flippingMessageId}
+                    title="Wrong direction? Translate the other way"
+                  >
+                    {flippingMessageId === message.id ? 'Flipping…' : '⇄ Flip'}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         );
       })}
@@ -0,0 +1,58 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+  DropdownMenuItem,
+} from "@/components/ui/dropdown-menu";
+
+interface ModelSelectorProps {
+  models: string[];
+  currentModel?: string;
+  onModelChange: (model: string) => void;
+}
+
+export function ModelSelector({ models, currentModel, onModelChange }: ModelSelectorProps) {
+  // Nothing to choose from
+  if (models.length < 2) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="h-auto p-0"
+        >
+          <div className="text-[9px] tracking-[0.25em] uppercase text-neutral-400 font-light">
+            {currentModel}
+          </div>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="center"
+        className="w-[200px] border-none rounded-xl bg-white/80 backdrop-blur-sm"
+        sideOffset={8}
+      >
+        {models.map(model => (
+          <DropdownMenuItem
+            key={model}
+            className={cn(
+              "py-3 cursor-pointer",
+              "transition-colors rounded-lg mx-1",
+              "first:mt-1 last:mb-1 hover:bg-neutral-100",
+              "text-[11px] tracking-[0.2em] uppercase",
+              model === currentModel ? "text-neutral-900 font-medium" : "text-neutral-500"
+            )}
+            onClick={() => onModelChange(model)}
+          >
+            {model}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Register, REGISTER_CONFIGS, REGISTERS } from "@/lib/config/register";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+  DropdownMenuItem,
+} from "@/components/ui/dropdown-menu";
+
+interface RegisterSelectorProps {
+  currentRegister: Register;
+  onRegisterChange: (register: Register) => void;
+}
+
+export function RegisterSelector({ currentRegister, onRegisterChange }: RegisterSelectorProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="h-auto p-0"
+          title="Formality of translations"
+        >
+          <div className="text-[9px] tracking-[0.25em] uppercase text-neutral-500 font-light">
+            {REGISTER_CONFIGS[currentRegister].label}
+          </div>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="center"
+        className="w-[160px] border-none rounded-xl bg-white/80 backdrop-blur-sm"
+        sideOffset={8}
+      >
+        {REGISTERS.map(register => (
+          <DropdownMenuItem
+            key={register}
+            className={cn(
+              "py-3 cursor-pointer",
+              "transition-colors rounded-lg mx-1",
+              "first:mt-1 last:mb-1 hover:bg-neutral-100",
+              "text-[11px] tracking-[0.2em] uppercase",
+              register === currentRegister ? "text-neutral-900 font-medium" : "text-neutral-500"
+            )}
+            onClick={() => onRegisterChange(register)}
+          >
+            {REGISTER_CONFIGS[register].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
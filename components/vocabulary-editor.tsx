@@ -0,0 +1,72 @@
+"use client";
+
+import * as React from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_VOCABULARY_TERMS } from "@/lib/vocabulary";
+
+interface VocabularyEditorProps {
+  vocabulary: string[];
+  onVocabularyChange: (vocabulary: string[]) => void;
+}
+
+export function VocabularyEditor({ vocabulary, onVocabularyChange }: VocabularyEditorProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState("");
+
+  const addTerm = () => {
+    const term = draft.trim();
+    if (!term || vocabulary.includes(term) || vocabulary.length >= MAX_VOCABULARY_TERMS) return;
+    onVocabularyChange([...vocabulary, term]);
+    setDraft("");
+  };
+
+  const removeTerm = (term: string) => {
+    onVocabularyChange(vocabulary.filter(existing => existing !== term));
+  };
+
+  return (
+    <div className="flex flex-col items-center px-8">
+      <button
+        className="text-[9px] tracking-[0.25em] uppercase text-neutral-400 font-light"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Terms{vocabulary.length > 0 && ` · ${vocabulary.length}`}
+      </button>
+
+      {isOpen && (
+        <div className="w-full max-w-[280px] mt-4 space-y-3">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTerm();
+              }
+            }}
+            placeholder="Hotel, street or dish name"
+            className={cn(
+              "w-full bg-transparent border-b border-neutral-200 py-1",
+              "text-[12px] tracking-[0.1em] text-neutral-900 font-light",
+              "placeholder:text-neutral-300 focus:outline-none focus:border-neutral-900"
+            )}
+          />
+          <div className="flex flex-wrap gap-2">
+            {vocabulary.map(term => (
+              <span
+                key={term}
+                className="inline-flex items-center gap-1 rounded-full bg-neutral-100 px-3 py-1 text-[11px] text-neutral-700"
+              >
+                {term}
+                <button onClick={() => removeTerm(term)} aria-label={`Remove ${term}`}>
+                  <X className="w-3 h-3 text-neutral-400" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
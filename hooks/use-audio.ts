@@ -1,5 +1,10 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 
+// The recorder runs for as long as we listen, so the first syllable is already
+// buffered by the time the analyser hears it
+const CHUNK_MS = 250;
+const PRE_ROLL_CHUNKS = 2; // 250ms * 2 = .5 second
+
 interface UseAudioRecorderProps {
   onRecordingComplete: (blob: Blob) => Promise<void>;
   silenceThreshold: number; // dB threshold for silence detection
@@ -13,7 +18,6 @@ export function useAudioRecorder({
   silenceTimeout,
   smoothingTimeConstant
 }: UseAudioRecorderProps) {
-  const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -24,8 +28,14 @@ export function useAudioRecorder({
   const audioContextRef = useRef<AudioContext | null>(null);
   const recordingStartRef = useRef<(() => Promise<void>) | null>(null);
   const recordingStopRef = useRef<(() => void) | null>(null);
-  const preBufferRef = useRef<Blob[]>([]);
-  const isPreBufferingRef = useRef(false);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const headerChunkRef = useRef<Blob | null>(null);
+  const preRollRef = useRef<Blob[]>([]);
+  const isCapturingRef = useRef(false);
+  const isStoppingRef = useRef(false);
+
+  onRecordingCompleteRef.current = onRecordingComplete;
 
   const cleanup = useCallback((fullCleanup: boolean = false) => {
     if (silenceTimeoutRef.current) {
@@ -33,8 +43,17 @@ export function useAudioRecorder({
       silenceTimeoutRef.current = null;
     }
 
+    // Drop whatever was being captured rather than sending half an utterance
+    isCapturingRef.current = false;
+    isStoppingRef.current = false;
+
     // Full cleanup only when completely stopping
     if (fullCleanup) {
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      recorderRef.current = null;
+
       if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
@@ -48,19 +67,14 @@ export function useAudioRecorder({
         streamRef.current = null;
       }
 
-      if (mediaRecorder?.stream) {
-        mediaRecorder.stream.getTracks().forEach(track => track.stop());
-      }
-
       analyserRef.current = null;
     }
 
     // Always cleanup recording state
     setIsRecording(false);
-    setMediaRecorder(null);
     audioChunksRef.current = [];
     isProcessingRef.current = false;
-  }, [mediaRecorder]);
+  }, []);
 
   const getSupportedMimeType = () => {
     const types = [
@@ -84,29 +98,77 @@ export function useAudioRecorder({
   };
 
 
-  const startPreBuffering = useCallback(async () => {
-    if (!streamRef.current || isPreBufferingRef.current) return;
-    
-    isPreBufferingRef.current = true;
-    console.log('starting prebuffering')
+  const finishUtterance = useCallback(async (mimeType: string) => {
+    const chunks = audioChunksRef.current;
+    const header = headerChunkRef.current;
+    audioChunksRef.current = [];
+    isCapturingRef.current = false;
+    isStoppingRef.current = false;
+    isProcessingRef.current = false;
+    setIsRecording(false);
+    console.log('Recording stopped');
+
+    if (chunks.length === 0 || !header) {
+      console.log('No significant audio detected - ignoring');
+      return;
+    }
+
+    // Every chunk depends on the container header the recorder's first chunk
+    // carries, so an utterance from later in the stream still needs it up front
+    const audioBlob = new Blob(chunks[0] === header ? chunks : [header, ...chunks], { type: mimeType });
+    console.log('Audio blob created:', audioBlob.size, 'bytes from', chunks.length, 'chunks');
+
+    try {
+      await onRecordingCompleteRef.current(audioBlob);
+    } catch (error) {
+      console.error('Error processing recording:', error);
+    }
+  }, []);
+
+  const startRecorder = useCallback(() => {
+    if (!streamRef.current || recorderRef.current) return;
+
     const mimeType = getSupportedMimeType();
     const recorder = new MediaRecorder(streamRef.current, {
       mimeType,
-      audioBitsPerSecond: 64000
+      audioBitsPerSecond: 96000
     });
-    
+    headerChunkRef.current = null;
+    preRollRef.current = [];
+
     recorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
-        preBufferRef.current.push(event.data);
-        // Keep only last 1 second of pre-buffer
-        if (preBufferRef.current.length > 2) { // 250ms * 2 = .5 second
-          preBufferRef.current.shift();
+        if (!headerChunkRef.current) {
+          headerChunkRef.current = event.data;
+        }
+        if (isCapturingRef.current) {
+          audioChunksRef.current.push(event.data);
+        } else {
+          preRollRef.current = [...preRollRef.current, event.data].slice(-PRE_ROLL_CHUNKS);
         }
       }
+
+      // Flushed by requestData() or stop(), so this chunk ends the utterance
+      if (isStoppingRef.current) {
+        finishUtterance(mimeType);
+      }
     };
-    
-    recorder.start(250); // Record in 250ms chunks
-  }, []);
+
+    recorder.onstop = () => {
+      if (recorderRef.current === recorder) {
+        recorderRef.current = null;
+      }
+    };
+
+    recorder.onerror = (event) => {
+      console.error('MediaRecorder error:', event);
+      cleanup(true);
+    };
+
+    recorder.start(CHUNK_MS);
+    recorderRef.current = recorder;
+    console.log('Recorder started');
+  }, [cleanup, finishUtterance]);
 
   const detectSilence = useCallback(() => {
     if (!analyserRef.current || !isListening) return;
@@ -186,62 +248,15 @@ export function useAudioRecorder({
         analyserRef.current.maxDecibels = -10;
         analyserRef.current.smoothingTimeConstant = smoothingTimeConstant;
         source.connect(analyserRef.current);
-
-        // Start pre-buffering
-        await startPreBuffering();
       }
       
-      const mimeType = getSupportedMimeType();
-      console.log('Using MIME type:', mimeType);
+      startRecorder();
 
-      const recorder = new MediaRecorder(streamRef.current, {
-        mimeType,
-        audioBitsPerSecond: 96000
-      });
-      
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          console.log('Received audio chunk:', event.data.size, 'bytes');
-          audioChunksRef.current.push(event.data);
-        }
-      };
-
-      recorder.onstop = async () => {
-        console.log('Recording stopped');
-        setIsRecording(false);
-        
-        if (audioChunksRef.current.length > 0 || preBufferRef.current.length > 0) {
-          console.log('Creating audio blob from', 
-            audioChunksRef.current.length + preBufferRef.current.length, 'chunks');
-          
-          // Combine pre-buffer with recorded chunks
-          const allChunks = [...preBufferRef.current, ...audioChunksRef.current];
-          const audioBlob = new Blob(allChunks, { type: mimeType });
-          console.log('Audio blob created:', audioBlob.size, 'bytes');
-          
-          try {
-            await onRecordingComplete(audioBlob);
-          } catch (error) {
-            console.error('Error processing recording:', error);
-          }
-        } else {
-          console.log('No significant audio detected - ignoring');
-        }
-        
-        audioChunksRef.current = [];
-        preBufferRef.current = [];
-        cleanup(false);
-      };
-
-      recorder.onerror = (event) => {
-        console.error('MediaRecorder error:', event);
-        cleanup(true);
-      };
-
-      // Start recording and request data every 250ms
-      recorder.start(250);
-      console.log('Recorder started');
-      setMediaRecorder(recorder);
+      // Begin with the buffered pre-roll so the start of the utterance is kept
+      audioChunksRef.current = [...preRollRef.current];
+      preRollRef.current = [];
+      isCapturingRef.current = true;
+      console.log('Capturing utterance');
       setIsRecording(true);
       isProcessingRef.current = false;
 
@@ -250,7 +265,7 @@ export function useAudioRecorder({
       cleanup(true);
       throw error;
     }
-  }, [onRecordingComplete, cleanup, isRecording, startPreBuffering]);
+  }, [cleanup, isRecording, smoothingTimeConstant, startRecorder]);
 
   const stopRecording = useCallback(() => {
     if (isProcessingRef.current) {
@@ -259,10 +274,13 @@ export function useAudioRecorder({
     }
 
     console.log('Stopping recording...');
-    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state === 'recording' && isCapturingRef.current) {
       isProcessingRef.current = true;
+      isStoppingRef.current = true;
       try {
-        mediaRecorder.stop();
+        // Keep the recorder running for the next utterance; just flush this one
+        recorder.requestData();
       } catch (error) {
         console.error('Error stopping recording:', error);
         cleanup(true);
@@ -270,7 +288,7 @@ export function useAudioRecorder({
     } else {
       cleanup(false);
     }
-  }, [mediaRecorder, cleanup]);
+  }, [cleanup]);
 
   // Store the recording functions in refs to avoid circular dependencies
   recordingStartRef.current = startRecording;
@@ -346,6 +364,7 @@ export function useAudioRecorder({
         }
       }
 
+      startRecorder();
       setIsListening(true);
       console.log('Started listening for audio');
 
@@ -354,7 +373,7 @@ export function useAudioRecorder({
       cleanup(true);
       throw error;
     }
-  }, [cleanup, smoothingTimeConstant]);
+  }, [cleanup, smoothingTimeConstant, startRecorder]);
 
   const stopListening = useCallback(() => {
     console.log('stopListening called, current state:', {
@@ -364,10 +383,14 @@ export function useAudioRecorder({
       hasAnalyser: !!analyserRef.current
     });
 
-    // If recording is in progress, stop it first
-    if (isRecording && mediaRecorder && mediaRecorder.state !== 'inactive') {
-      console.log('Stopping ongoing recording');
-      mediaRecorder.stop();
+    // Stop the recorder; an utterance in progress is sent with its final chunk
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      if (isCapturingRef.current) {
+        console.log('Stopping ongoing recording');
+        isStoppingRef.current = true;
+      }
+      recorderRef.current.stop();
+      recorderRef.current = null;
     }
 
     // First set the state to false to stop the monitoring loop
@@ -388,7 +411,7 @@ export function useAudioRecorder({
       clearTimeout(silenceTimeoutRef.current);
       silenceTimeoutRef.current = null;
     }
-  }, [isRecording, mediaRecorder]);
+  }, []);
 
   return {
     startRecording,
@@ -0,0 +1,14 @@
+// Translation cache configuration
+export type CacheConfig = {
+  store: 'memory' | 'kv' | 'none';
+  maxEntries: number; // LRU bound for the memory store
+  ttl: number; // seconds
+};
+
+// TRANSLATION_CACHE_STORE=kv uses the KV_REST_API_* store from lib/kv.ts.
+// There is no file store: the translation routes run on the edge runtime, without fs.
+export const TRANSLATION_CACHE: CacheConfig = {
+  store: (process.env.TRANSLATION_CACHE_STORE as CacheConfig['store']) || 'memory',
+  maxEntries: Number(process.env.TRANSLATION_CACHE_MAX_ENTRIES) || 500,
+  ttl: Number(process.env.TRANSLATION_CACHE_TTL) || 24 * 60 * 60,
+};
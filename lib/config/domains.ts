@@ -0,0 +1,152 @@
+// Domain prompt packs: the setting a conversation happens in, chosen when it starts.
+// Each pack fills {DOMAIN}, {GUIDELINES}, {EXAMPLES} and {VALIDATION} in PROMPT_TEMPLATES.
+export type DomainPack = {
+  label: string;
+  description: string; // Who is talking to whom, and about what
+  guidelines: string[];
+  examples: { input: string; output: string }[];
+  validation: string[]; // Checks the model runs before answering
+};
+
+export type DomainPacks = {
+  [key: string]: DomainPack;
+};
+
+export const DOMAIN_PACKS: DomainPacks = {
+  travel: {
+    label: 'Travel',
+    description: 'A traveller talking with locals: directions, transport, shopping and sightseeing.',
+    guidelines: [
+      'Intent Inference - Expand clipped tourist phrasing into what the speaker means',
+      '[Prohibited] Avoid literal translations - prioritize natural conversational expressions',
+      '[Additional] Include travel-related context when needed (e.g., "Bus 143" → "Bus 143 (City Circle Route)")'
+    ],
+    examples: [
+      { input: 'Where toilet?', output: 'Excuse me, could you please direct me to the restroom?' }
+    ],
+    validation: [
+      'Context Match: Does it fit a travel conversation?'
+    ]
+  },
+  medical: {
+    label: 'Medical intake',
+    description: 'A patient describing symptoms to a nurse or doctor during intake.',
+    guidelines: [
+      'Accuracy over fluency - never soften, omit or add symptoms, quantities or timings',
+      'Keep medication names, doses and units exactly as spoken',
+      'Use plain patient-friendly wording when translating for the patient, clinical wording for staff',
+      'Translate pain descriptions (sharp, dull, burning) with their closest clinical equivalent'
+    ],
+    examples: [
+      { input: 'It hurts here since yesterday, like burning', output: 'I have had a burning pain here since yesterday.' },
+      { input: 'Take two tablets every eight hours', output: 'Take two tablets every eight hours.' }
+    ],
+    validation: [
+      'Completeness: Are every symptom, number, dose and time from the input present?',
+      'No advice: Did you avoid adding diagnoses or recommendations of your own?'
+    ]
+  },
+  hotel: {
+    label: 'Hotel front desk',
+    description: 'A guest and front desk staff handling check-in, requests and complaints.',
+    guidelines: [
+      'Staff speak in a service register; keep guest requests polite but direct',
+      'Keep room numbers, dates, times and prices exactly as spoken',
+      'Translate amenities and room types with the terms hotels commonly use'
+    ],
+    examples: [
+      { input: 'Late checkout possible?', output: 'Would a late check-out be possible?' }
+    ],
+    validation: [
+      'Details: Are room numbers, dates, times and prices unchanged?',
+      'Service tone: Does staff speech sound courteous?'
+    ]
+  },
+  business: {
+    label: 'Business meeting',
+    description: 'Colleagues or partners discussing plans, figures and commitments in a meeting.',
+    guidelines: [
+      'Preserve hedging and commitment levels exactly ("might", "will", "must")',
+      'Keep figures, currencies, dates and company or product names unchanged',
+      'Prefer concise professional phrasing over idioms'
+    ],
+    examples: [
+      { input: 'We can probably ship by end of Q3', output: 'We can probably ship by the end of Q3.' }
+    ],
+    validation: [
+      'Commitments: Is every promise, condition and hedge carried over at the same strength?',
+      'Figures: Are numbers, currencies and dates unchanged?'
+    ]
+  },
+  restaurant: {
+    label: 'Restaurant',
+    description: 'A diner ordering food and asking about dishes, allergies and the bill.',
+    guidelines: [
+      'Allergies and dietary restrictions must be translated unambiguously',
+      'Keep dish names recognizable; add a short gloss when a dish has no equivalent',
+      'Keep quantities and prices exactly as spoken'
+    ],
+    examples: [
+      { input: 'No peanut, allergy', output: 'I have a peanut allergy, so no peanuts, please.' }
+    ],
+    validation: [
+      'Safety: Are allergies and dietary restrictions stated clearly?',
+      'Order: Are dishes, quantities and prices unchanged?'
+    ]
+  },
+  taxi: {
+    label: 'Taxi',
+    description: 'A passenger and a taxi driver discussing destination, route and fare.',
+    guidelines: [
+      'Keep addresses, landmarks and street names as spoken; do not translate proper nouns',
+      'Keep directions (left, right, straight, stop here) short and unambiguous',
+      'Keep fares and payment methods exactly as spoken'
+    ],
+    examples: [
+      { input: 'Airport, terminal 2, fast please', output: 'To the airport, Terminal 2, please. I\'m in a bit of a hurry.' }
+    ],
+    validation: [
+      'Destination: Are addresses and landmarks unchanged?',
+      'Directions: Is each direction unambiguous?'
+    ]
+  }
+};
+
+export const DEFAULT_DOMAIN = 'travel';
+
+export function isDomain(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DOMAIN_PACKS, value);
+}
+
+// Get domain pack
+export function getDomainPack(domain?: string): DomainPack {
+  const selected = domain || DEFAULT_DOMAIN;
+  const pack = DOMAIN_PACKS[selected];
+
+  if (!pack) {
+    throw new Error(`Invalid domain pack: ${selected}`);
+  }
+
+  return pack;
+}
+
+// Pack text is pasted into the templates verbatim, so check it once at load time
+for (const [name, pack] of Object.entries(DOMAIN_PACKS)) {
+  if (pack.guidelines.length === 0 || pack.validation.length === 0) {
+    throw new Error(`Domain pack "${name}" needs guidelines and validation rules`);
+  }
+  if (/{[A-Z_]+}/.test(JSON.stringify(pack))) {
+    throw new Error(`Domain pack "${name}" contains a template placeholder`);
+  }
+}
+
+// Prompt blocks for a pack, keyed by the template placeholder they fill
+export function formatDomainPrompt(domain?: string) {
+  const pack = getDomainPack(domain);
+  return {
+    DOMAIN: `${pack.label}: ${pack.description}`,
+    GUIDELINES: pack.guidelines.map(guideline => `- ${guideline}`).join('\n'),
+    EXAMPLES: pack.examples.map(({ input, output }) => `"${input}" → "${output}"`).join('\n'),
+    VALIDATION: pack.validation.map(check => `- ${check}`).join('\n'),
+  };
+}
@@ -0,0 +1,46 @@
+// Token bucket: up to `capacity` units in a burst, refilled at `refillPerMinute`
+export type BucketConfig = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+// Every request spends from both the caller's IP bucket and its session bucket
+export type RouteLimits = {
+  ip: BucketConfig;
+  session: BucketConfig;
+};
+
+export type RateLimitedRoute = 'speech' | 'language' | 'translate' | 'pipeline' | 'tts' | 'ttsCharacters';
+
+// RATE_LIMIT_STORE=kv shares buckets between instances through the KV_REST_API_* store
+export const RATE_LIMIT_STORE = (process.env.RATE_LIMIT_STORE as 'memory' | 'kv' | 'none') || 'memory';
+
+// Per-route limits. An IP bucket is larger than a session bucket so a few people
+// behind one NAT (a tour group on hotel wifi) don't starve each other.
+export const RATE_LIMITS: { [route in RateLimitedRoute]: RouteLimits } = {
+  speech: {
+    ip: { capacity: 60, refillPerMinute: 30 },
+    session: { capacity: 20, refillPerMinute: 15 }
+  },
+  language: {
+    ip: { capacity: 20, refillPerMinute: 10 },
+    session: { capacity: 5, refillPerMinute: 2 }
+  },
+  translate: {
+    ip: { capacity: 90, refillPerMinute: 45 },
+    session: { capacity: 30, refillPerMinute: 20 }
+  },
+  pipeline: {
+    ip: { capacity: 60, refillPerMinute: 30 },
+    session: { capacity: 20, refillPerMinute: 15 }
+  },
+  tts: {
+    ip: { capacity: 60, refillPerMinute: 30 },
+    session: { capacity: 20, refillPerMinute: 15 }
+  },
+  // ElevenLabs bills by character, so speech output has its own budget in characters
+  ttsCharacters: {
+    ip: { capacity: 15000, refillPerMinute: 1500 },
+    session: { capacity: 5000, refillPerMinute: 500 }
+  }
+};
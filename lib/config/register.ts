@@ -0,0 +1,65 @@
+import { Language } from '@/lib/types';
+
+// Formality the translation should be delivered in, chosen per conversation
+export type Register = 'formal' | 'neutral' | 'casual';
+
+export type RegisterConfig = {
+  label: string;
+  instructions: string;
+  // Honorific handling for languages that grammaticalize politeness, keyed by ISO 639-1 code
+  honorifics: { [code: string]: string };
+};
+
+export const REGISTER_CONFIGS: { [key in Register]: RegisterConfig } = {
+  formal: {
+    label: 'Formal',
+    instructions: 'Use a formal, professional register: complete sentences, polite forms of address, no slang or contractions.',
+    honorifics: {
+      ko: 'Korean: use 합쇼체 (-습니다/-습니까) with subject honorifics (-시-) for the listener.',
+      ja: 'Japanese: use keigo, with sonkeigo for the listener and kenjōgo for the speaker, on top of です/ます.'
+    }
+  },
+  neutral: {
+    label: 'Neutral',
+    instructions: 'Use a polite but natural everyday register, as between strangers in a shop or hotel.',
+    honorifics: {
+      ko: 'Korean: use 해요체 (-아요/-어요); add -시- only where it would sound odd without it.',
+      ja: 'Japanese: use teineigo (です/ます) without elaborate keigo.'
+    }
+  },
+  casual: {
+    label: 'Casual',
+    instructions: 'Use a casual, friendly register as between friends; contractions and light colloquialisms are fine.',
+    honorifics: {
+      ko: 'Korean: use 반말 (-아/-어) without honorifics.',
+      ja: 'Japanese: use plain forms (だ/である, dictionary forms) without です/ます or keigo.'
+    }
+  }
+};
+
+export const DEFAULT_REGISTER: Register = 'neutral';
+
+export const REGISTERS = Object.keys(REGISTER_CONFIGS) as Register[];
+
+export function isRegister(value: unknown): value is Register {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REGISTER_CONFIGS, value);
+}
+
+// Get register configuration
+export function getRegisterConfig(register?: string): RegisterConfig {
+  const selected = register || DEFAULT_REGISTER;
+  if (!isRegister(selected)) {
+    throw new Error(`Invalid register: ${selected}`);
+  }
+  return REGISTER_CONFIGS[selected];
+}
+
+// Honorific rules that apply to either side of the pair, or 'None'
+export function formatHonorificInstructions(register: string | undefined, languages: Language[]): string {
+  const { honorifics } = getRegisterConfig(register);
+  const rules = languages
+    .map(language => honorifics[language.code.toLowerCase()])
+    .filter(Boolean);
+
+  return rules.length > 0 ? rules.join('\n') : 'None';
+}
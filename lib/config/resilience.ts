@@ -0,0 +1,32 @@
+// Retry and circuit breaker settings for calls to upstream providers
+export type RetryPolicy = {
+  maxAttempts: number; // including the first
+  baseDelay: number; // ms before the first retry, doubled after each one
+  maxDelay: number; // ms; a longer Retry-After gives up instead of waiting
+  deadline: number; // ms for all attempts and waits together
+  retryStatuses: number[]; // HTTP statuses worth another try; 5xx always are
+};
+
+export type CircuitBreakerConfig = {
+  failureThreshold: number; // calls in a row that gave up after their retries
+  cooldown: number; // ms an open circuit skips the provider before one trial call
+};
+
+export type ResilientCall = 'translate' | 'language' | 'speech' | 'tts';
+
+// Rate limits and timeouts clear up; bad requests and auth failures don't
+const TRANSIENT_STATUSES = [408, 409, 425, 429];
+
+export const RETRY_POLICIES: { [key in ResilientCall]: RetryPolicy } = {
+  // Translations also fall back to other providers, so give each one less time
+  translate: { maxAttempts: 2, baseDelay: 500, maxDelay: 2000, deadline: 6000, retryStatuses: TRANSIENT_STATUSES },
+  language: { maxAttempts: 3, baseDelay: 1000, maxDelay: 5000, deadline: 10000, retryStatuses: TRANSIENT_STATUSES },
+  // Uploads run up to AUDIO_LIMITS.maxDuration (120 s), which whisper-1 can take a while over
+  speech: { maxAttempts: 3, baseDelay: 500, maxDelay: 4000, deadline: 60000, retryStatuses: TRANSIENT_STATUSES },
+  tts: { maxAttempts: 2, baseDelay: 500, maxDelay: 2000, deadline: 5000, retryStatuses: TRANSIENT_STATUSES },
+};
+
+export const CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  cooldown: 30 * 1000,
+};
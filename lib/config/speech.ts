@@ -0,0 +1,141 @@
+// Audio containers we can recognize from their magic bytes
+export type AudioContainer = 'webm' | 'ogg' | 'wav' | 'mp4' | 'aac' | 'mp3' | 'flac';
+
+// Speech-to-text provider configurations
+export type SpeechProviderConfig = {
+  baseURL: string;
+  apiKey: string | undefined;
+  model: string;
+  temperature: number;
+  formats: AudioContainer[]; // raw ADTS AAC is rewrapped as mp4 for providers without 'aac'
+  sampleRate?: number; // WAV input is resampled to this rate when set
+};
+
+export type SpeechProviderConfigs = {
+  [key: string]: SpeechProviderConfig;
+};
+
+// Every provider speaks the OpenAI-compatible /audio/transcriptions API
+export const STT_CONFIGS: SpeechProviderConfigs = {
+  // groq
+  groq: {
+    baseURL: 'https://api.groq.com/openai/v1',
+    apiKey: process.env.GROQ_API_KEY,
+    // model: 'whisper-large-v3-turbo',
+    model: 'whisper-large-v3',
+    temperature: 0.0,
+    formats: ['webm', 'ogg', 'wav', 'mp4', 'mp3', 'flac']
+  },
+  // openai
+  openai: {
+    baseURL: 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    model: 'whisper-1',
+    temperature: 0.0,
+    formats: ['webm', 'ogg', 'wav', 'mp4', 'mp3', 'flac']
+  },
+  // self-hosted whisper server (faster-whisper-server, whisper.cpp server, CI stand-ins, ...)
+  local: {
+    baseURL: process.env.LOCAL_WHISPER_BASE_URL || 'http://localhost:8000/v1',
+    // Most local servers ignore the key, but the OpenAI client refuses an empty one
+    apiKey: process.env.LOCAL_WHISPER_API_KEY || 'local',
+    model: process.env.LOCAL_WHISPER_MODEL || 'whisper-large-v3',
+    temperature: 0.0,
+    formats: ['webm', 'ogg', 'wav', 'mp4', 'aac', 'mp3', 'flac'],
+    // whisper.cpp's server only accepts 16kHz WAV unless started with --convert
+    sampleRate: process.env.LOCAL_WHISPER_SAMPLE_RATE
+      ? Number(process.env.LOCAL_WHISPER_SAMPLE_RATE)
+      : undefined
+  }
+};
+
+// Default provider selection. Can be overridden per deployment with STT_PROVIDER.
+export const DEFAULT_STT_PROVIDER = process.env.STT_PROVIDER || 'groq';
+
+// Get speech provider configuration
+export function getSpeechConfig(providerName?: string): SpeechProviderConfig {
+  const selectedProvider = providerName || DEFAULT_STT_PROVIDER;
+  const config = STT_CONFIGS[selectedProvider];
+
+  if (!config) {
+    throw new Error(`Invalid speech provider: ${selectedProvider}`);
+  }
+
+  if (!config.apiKey) {
+    throw new Error(`API key not found for speech provider: ${selectedProvider}`);
+  }
+
+  return config;
+}
+
+// Upload limits, checked before audio is sent to a provider
+export const AUDIO_LIMITS = {
+  maxBytes: 25 * 1024 * 1024, // Groq and OpenAI both reject larger files
+  maxDuration: 120, // seconds
+};
+
+// Whisper hallucination detection
+export type HallucinationConfig = {
+  // Phantom phrases whisper produces on near-silent clips, keyed by ISO 639-1 code.
+  // '*' applies regardless of the detected language.
+  blocklists: { [languageCode: string]: string[] };
+  // Share of the (normalized) transcript a blocklisted phrase must cover to be flagged
+  minPhraseCoverage: number;
+  // The same words repeated this many times in a row are treated as a loop
+  minRepetitions: number;
+  // Repeated units shorter than this (in characters) are real speech: "no no no no"
+  minRepeatedUnitLength: number;
+  maxRepeatedUnitWords: number;
+  maxCharsPerSecond: number;
+  minSpeechDuration: number; // seconds
+};
+
+export const HALLUCINATION_CONFIG: HallucinationConfig = {
+  blocklists: {
+    '*': [
+      'amara.org',
+      'www.mooji.org',
+    ],
+    en: [
+      'thanks for watching',
+      'thank you for watching',
+      'thank you so much for watching',
+      'please subscribe',
+      'like and subscribe',
+      'dont forget to subscribe',
+      'see you in the next video',
+      'subtitles by',
+      'subtitles by the amara.org community',
+      'transcribed by',
+    ],
+    ko: [
+      '시청해주셔서 감사합니다',
+      '시청해 주셔서 감사합니다',
+      '구독과 좋아요',
+      '구독 좋아요',
+      '다음 영상에서 만나요',
+      '자막 제공',
+      '자막 by',
+      'mbc 뉴스',
+    ],
+    ja: [
+      'ご視聴ありがとうございました',
+      'ご視聴ありがとうございます',
+      'チャンネル登録',
+      'チャンネル登録よろしくお願いします',
+      '字幕',
+    ],
+    zh: [
+      '谢谢观看',
+      '感谢观看',
+      '请不吝点赞 订阅 转发 打赏支持明镜与点点栏目',
+      '字幕由amara.org社区提供',
+    ],
+  },
+  minPhraseCoverage: 0.5,
+  minRepetitions: 4,
+  minRepeatedUnitLength: 4,
+  maxRepeatedUnitWords: 6,
+  maxCharsPerSecond: 25,
+  minSpeechDuration: 0.3,
+};
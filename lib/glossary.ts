@@ -0,0 +1,59 @@
+import { GlossaryEntry } from './types';
+
+// Per-conversation termbase: source term → the exact target term translations must use
+export const MAX_GLOSSARY_ENTRIES = 50;
+const MAX_TERM_LENGTH = 60;
+
+// Accepts anything from a request body and returns clean entries, one per source term
+export function parseGlossary(value: unknown): GlossaryEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  const entries = new Map<string, GlossaryEntry>();
+  for (const entry of value) {
+    if (typeof entry?.source !== 'string' || typeof entry?.target !== 'string') continue;
+
+    const source = entry.source.trim().slice(0, MAX_TERM_LENGTH);
+    const target = entry.target.trim().slice(0, MAX_TERM_LENGTH);
+    if (source && target && !entries.has(source.toLowerCase())) {
+      entries.set(source.toLowerCase(), { source, target });
+    }
+  }
+
+  return Array.from(entries.values()).slice(0, MAX_GLOSSARY_ENTRIES);
+}
+
+const containsTerm = (text: string, term: string) =>
+  text.toLowerCase().includes(term.toLowerCase());
+
+// Entries whose source term appears in the input
+function findGlossaryMatches(text: string, glossary: GlossaryEntry[]): GlossaryEntry[] {
+  return glossary.filter(entry => containsTerm(text, entry.source));
+}
+
+// Matched entries whose required target term is missing from the translation
+export function findGlossaryViolations(
+  text: string,
+  translation: string,
+  glossary: GlossaryEntry[]
+): GlossaryEntry[] {
+  return findGlossaryMatches(text, glossary).filter(entry => !containsTerm(translation, entry.target));
+}
+
+// Instruction block for the translation prompt. The entries themselves are the
+// client's, so they travel in a user message inside <glossary-terms>, and the ones a
+// previous attempt left out inside <missing-terms>.
+export function formatGlossaryInstructions(glossary: GlossaryEntry[], missing: GlossaryEntry[] = []): string {
+  if (glossary.length === 0) return 'None';
+
+  let instructions = 'Each line inside <glossary-terms> pairs a term with its required translation. When the input contains a term on the left, the translation MUST contain the term on the right exactly as written.';
+
+  if (missing.length > 0) {
+    instructions += ' A previous translation left out the terms listed inside <missing-terms>. Include them this time.';
+  }
+  return instructions;
+}
+
+// One entry per line, for <glossary-terms> and <missing-terms>
+export function formatGlossaryTerms(glossary: GlossaryEntry[]): string {
+  return glossary.map(entry => `- "${entry.source}" → "${entry.target}"`).join('\n');
+}
@@ -0,0 +1,31 @@
+// Redis-compatible REST API (Upstash, Vercel KV): POST the command as a JSON array
+export type KVConfig = {
+  url: string | undefined;
+  token: string | undefined;
+};
+
+export const KV_CONFIG: KVConfig = {
+  url: process.env.KV_REST_API_URL,
+  token: process.env.KV_REST_API_TOKEN,
+};
+
+export function isKVConfigured(config: KVConfig = KV_CONFIG): boolean {
+  return Boolean(config.url && config.token);
+}
+
+export async function kvCommand(args: (string | number)[], config: KVConfig = KV_CONFIG) {
+  if (!config.url || !config.token) {
+    throw new Error('KV store is not configured');
+  }
+
+  const response = await fetch(config.url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${config.token}` },
+    body: JSON.stringify(args.map(String)),
+  });
+
+  if (!response.ok) {
+    throw new Error(`KV request failed: ${response.status}`);
+  }
+  return (await response.json()).result;
+}
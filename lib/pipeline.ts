@@ -0,0 +1,214 @@
+import { GlossaryEntry, Language, PipelineRequestError, TranslationResult } from './types';
+import { sessionHeaders } from './session';
+
+export interface PipelineMetrics {
+  sttLatency?: number;
+  firstTokenLatency?: number;
+  translationLatency?: number;
+  ttsLatency?: number;
+  totalLatency?: number;
+  model?: string;
+  requestedModel?: string;
+  cached?: boolean;
+}
+
+export interface PipelineTranscript {
+  text: string;
+  language: string;
+  languageCode?: string;
+}
+
+// Events streamed by /api/pipeline, one JSON object per SSE `data:` line
+export type PipelineEvent =
+  | ({ type: 'transcript' } & PipelineTranscript)
+  | { type: 'reasoning'; content: string } // only when requested
+  | { type: 'translation-delta'; content: string; target?: string } // target language code in groups
+  | { type: 'translation-final'; result: TranslationResult } // one per listener language
+  | { type: 'audio-chunk'; data: string; mimeType: string } // base64
+  | { type: 'audio-error'; error: string }
+  | { type: 'audio-end' } // every audio-chunk for this utterance has been sent
+  | { type: 'metrics'; metrics: PipelineMetrics }
+  | { type: 'error'; error: string };
+
+interface Message {
+  originalText: string;
+  translatedText: string;
+  sourceLang?: string;
+  targetLang?: string;
+}
+
+interface PipelineOptions {
+  previousMessages?: Message[]; // turns not yet covered by `summary`
+  summary?: string; // running summary from updateConversationMemory
+  vocabulary?: string[];
+  glossary?: GlossaryEntry[];
+  register?: string;
+  domain?: string;
+  model?: string;
+  tts?: boolean;
+  reasoning?: boolean; // stream the model's <think> phase, for R1-style models
+  qualityCheck?: boolean; // back-translate and attach a fidelity score
+  onTranscript?: (transcript: PipelineTranscript) => void;
+  onPartial?: (text: string) => void; // group translations arrive joined by newlines
+  onReasoning?: (text: string) => void;
+  onAudio?: (audio: Blob) => void;
+  onMetrics?: (metrics: PipelineMetrics) => void;
+  signal?: AbortSignal; // aborting also cancels translation and speech on the server
+}
+
+export interface PipelineResult {
+  transcript: PipelineTranscript;
+  translations: TranslationResult[]; // one per other language, in the order they finished
+  reasoning?: string;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Send one utterance through STT, translation and TTS in a single request
+export async function runPipeline(
+  audio: Blob,
+  languages: Language[],
+  options?: PipelineOptions
+): Promise<PipelineResult> {
+  const formData = new FormData();
+  formData.append('audio', audio, 'audio.webm');
+  formData.append('languages', JSON.stringify(languages));
+  formData.append('previousMessages', JSON.stringify(options?.previousMessages || []));
+  if (options?.summary) {
+    formData.append('summary', options.summary);
+  }
+  formData.append('tts', String(options?.tts ?? false));
+  if (options?.reasoning) {
+    formData.append('reasoning', 'true');
+  }
+  if (options?.qualityCheck) {
+    formData.append('qualityCheck', 'true');
+  }
+  if (options?.model) {
+    formData.append('model', options.model);
+  }
+  if (options?.register) {
+    formData.append('register', options.register);
+  }
+  if (options?.domain) {
+    formData.append('domain', options.domain);
+  }
+  if (options?.vocabulary?.length) {
+    formData.append('vocabulary', JSON.stringify(options.vocabulary));
+  }
+  if (options?.glossary?.length) {
+    formData.append('glossary', JSON.stringify(options.glossary));
+  }
+
+  const response = await fetch('/api/pipeline', {
+    method: 'POST',
+    headers: sessionHeaders(),
+    body: formData,
+    signal: options?.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new PipelineRequestError(error);
+  }
+
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const audioChunks: Uint8Array[] = [];
+  let audioType = 'audio/mpeg';
+  let transcript: PipelineTranscript | null = null;
+  // Group translations stream in parallel, so partial text is kept per target
+  const partials = new Map<string, string>();
+  const translations: TranslationResult[] = [];
+  let reasoning = '';
+  let buffer = '';
+
+  const handleEvent = (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'transcript':
+        transcript = { text: event.text, language: event.language, languageCode: event.languageCode };
+        options?.onTranscript?.(transcript);
+        break;
+      case 'reasoning':
+        reasoning += event.content;
+        options?.onReasoning?.(reasoning);
+        break;
+      case 'translation-delta':
+        partials.set(event.target || '', (partials.get(event.target || '') || '') + event.content);
+        options?.onPartial?.(Array.from(partials.values()).join('\n'));
+        break;
+      case 'translation-final':
+        translations.push(event.result);
+        // Pair deltas carry no target, since the model may pick the direction itself
+        partials.set(partials.has('') ? '' : event.result.targetLanguage.code, event.result.translation);
+        options?.onPartial?.(Array.from(partials.values()).join('\n'));
+        break;
+      case 'audio-chunk':
+        audioChunks.push(decodeBase64(event.data));
+        audioType = event.mimeType;
+        break;
+      case 'audio-error':
+        console.error('Pipeline TTS error:', event.error);
+        break;
+      case 'audio-end':
+        // Hand the clip over now rather than when the stream closes
+        if (audioChunks.length > 0) {
+          options?.onAudio?.(new Blob(audioChunks, { type: audioType }));
+          audioChunks.length = 0;
+        }
+        break;
+      case 'metrics':
+        options?.onMetrics?.(event.metrics);
+        break;
+      case 'error':
+        throw new Error(event.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Audio chunks are large, so events regularly span several reads
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      if (!event.startsWith('data: ')) continue;
+
+      const data = event.slice(5).trim();
+      if (data === '[DONE]') continue;
+
+      let parsed: PipelineEvent;
+      try {
+        parsed = JSON.parse(data);
+      } catch (e) {
+        console.error('Error parsing SSE message:', e);
+        continue;
+      }
+      handleEvent(parsed);
+    }
+  }
+
+  if (!transcript) {
+    throw new Error('No transcript received');
+  }
+
+  if (translations.length === 0) {
+    throw new Error('No translation received');
+  }
+
+  return { transcript, translations, reasoning: reasoning.trim() || undefined };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { clientIp, consumeRateLimit } from './rate-limit';
+
+function request(headers: Record<string, string>) {
+  return new Request('http://localhost/api/language', { headers });
+}
+
+describe('clientIp', () => {
+  it('ignores addresses the client put in front of x-forwarded-for', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('prefers x-real-ip', () => {
+    expect(clientIp(request({ 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('does not charge the IP bucket for requests the session bucket denies', async () => {
+    const take = async (session: string) =>
+      (await consumeRateLimit(request({ 'x-real-ip': '198.51.100.1', 'x-session-id': session }), 'language')).allowed;
+
+    // The language route allows 20 per IP and 5 per session
+    for (let i = 0; i < 5; i++) expect(await take('first')).toBe(true);
+    for (let i = 0; i < 10; i++) expect(await take('first')).toBe(false);
+
+    for (const session of ['second', 'third', 'fourth']) {
+      for (let i = 0; i < 5; i++) expect(await take(session)).toBe(true);
+    }
+    expect(await take('fifth')).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { BucketConfig, RATE_LIMITS, RATE_LIMIT_STORE, RateLimitedRoute } from '@/lib/config/rate-limit';
+import { isKVConfigured, kvCommand } from '@/lib/kv';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // seconds until `cost` units are available again
+}
+
+// Where bucket state lives. `take` must refill and spend atomically; `refund` gives
+// back what a take spent when the request is denied by another bucket.
+export interface RateLimitStore {
+  take(key: string, cost: number, bucket: BucketConfig): Promise<RateLimitResult>;
+  refund(key: string, cost: number, bucket: BucketConfig): Promise<void>;
+}
+
+function retryAfter(tokens: number, cost: number, bucket: BucketConfig) {
+  return Math.max(1, Math.ceil(((cost - tokens) / bucket.refillPerMinute) * 60));
+}
+
+// Per-instance buckets, fine for local development and single-instance deployments
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  async take(key: string, cost: number, bucket: BucketConfig): Promise<RateLimitResult> {
+    const now = Date.now();
+    const state = this.buckets.get(key) || { tokens: bucket.capacity, updatedAt: now };
+    const refilled = (now - state.updatedAt) / 60000 * bucket.refillPerMinute;
+    const tokens = Math.min(bucket.capacity, state.tokens + refilled);
+
+    if (tokens < cost) {
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return { allowed: false, retryAfter: retryAfter(tokens, cost, bucket) };
+    }
+
+    this.buckets.set(key, { tokens: tokens - cost, updatedAt: now });
+    this.prune(now);
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  async refund(key: string, cost: number, bucket: BucketConfig): Promise<void> {
+    const state = this.buckets.get(key);
+    if (state) {
+      this.buckets.set(key, { ...state, tokens: Math.min(bucket.capacity, state.tokens + cost) });
+    }
+  }
+
+  // Full buckets carry no state worth keeping
+  private prune(now: number) {
+    if (this.buckets.size < 10000) return;
+    this.buckets.forEach((state, key) => {
+      if (now - state.updatedAt > 60 * 60 * 1000) this.buckets.delete(key);
+    });
+  }
+}
+
+// Refill and spend in one round trip so concurrent instances can't double-spend
+const TAKE_SCRIPT = `
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updated) / 60000 * refill)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill * 60000))
+return { allowed, tostring(tokens) }
+`;
+
+const REFUND_SCRIPT = `
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+if tokens then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(math.min(tonumber(ARGV[1]), tokens + tonumber(ARGV[2]))))
+end
+return 1
+`;
+
+// Buckets shared by every instance through the KV store
+export class KVRateLimitStore implements RateLimitStore {
+  async take(key: string, cost: number, bucket: BucketConfig): Promise<RateLimitResult> {
+    const [allowed, tokens] = await kvCommand([
+      'EVAL', TAKE_SCRIPT, 1, key,
+      bucket.capacity, bucket.refillPerMinute, cost, Date.now()
+    ]);
+
+    return allowed === 1
+      ? { allowed: true, retryAfter: 0 }
+      : { allowed: false, retryAfter: retryAfter(Number(tokens), cost, bucket) };
+  }
+
+  async refund(key: string, cost: number, bucket: BucketConfig): Promise<void> {
+    await kvCommand(['EVAL', REFUND_SCRIPT, 1, key, bucket.capacity, cost]);
+  }
+}
+
+function createRateLimitStore(): RateLimitStore | null {
+  switch (RATE_LIMIT_STORE) {
+    case 'none':
+      return null;
+    case 'kv':
+      if (isKVConfigured()) {
+        return new KVRateLimitStore();
+      }
+      console.warn('KV rate limit store is not configured, falling back to memory');
+      return new MemoryRateLimitStore();
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+const store = createRateLimitStore();
+
+// The client can put anything at the start of x-forwarded-for, so only trust what
+// the proxy in front of us set: x-real-ip, or the address it appended last
+export function clientIp(req: Request) {
+  return req.headers.get('x-real-ip')?.trim()
+    || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    || 'unknown';
+}
+
+// Spend `cost` units from the caller's IP and session buckets for `route`.
+// Sessions are identified by the client's x-session-id header, when it sends one.
+export async function consumeRateLimit(
+  req: Request,
+  route: RateLimitedRoute,
+  cost = 1
+): Promise<RateLimitResult> {
+  if (!store) return { allowed: true, retryAfter: 0 };
+
+  const limits = RATE_LIMITS[route];
+  const sessionId = req.headers.get('x-session-id')?.slice(0, 64);
+
+  const buckets = [
+    { key: `ratelimit:${route}:ip:${clientIp(req)}`, bucket: limits.ip },
+    ...(sessionId ? [{ key: `ratelimit:${route}:session:${sessionId}`, bucket: limits.session }] : [])
+  ];
+
+  try {
+    const results = await Promise.all(buckets.map(({ key, bucket }) => store.take(key, cost, bucket)));
+
+    const denied = results.filter(result => !result.allowed);
+    if (denied.length === 0) return { allowed: true, retryAfter: 0 };
+
+    // A denied request costs nothing, so give back what the other bucket spent
+    await Promise.all(buckets
+      .filter((_, index) => results[index].allowed)
+      .map(({ key, bucket }) => store.refund(key, cost, bucket)));
+    return { allowed: false, retryAfter: Math.max(...denied.map(result => result.retryAfter)) };
+  } catch (error) {
+    // An unreachable store should not take the whole app down with it
+    console.error('Rate limit check failed:', error);
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+// 429 response for a route, or null when the request may proceed
+export async function checkRateLimit(
+  req: Request,
+  route: RateLimitedRoute,
+  cost = 1
+): Promise<Response | null> {
+  const { allowed, retryAfter } = await consumeRateLimit(req, route, cost);
+  if (allowed) return null;
+
+  return new Response(
+    JSON.stringify({
+      error: 'Too many requests',
+      details: `Rate limit exceeded, try again in ${retryAfter}s`,
+      retryAfter
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'Retry-After': String(retryAfter),
+      }
+    }
+  );
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CIRCUIT_BREAKER, RETRY_POLICIES } from '@/lib/config/resilience';
+import { CircuitOpenError, UpstreamError } from '@/lib/types';
+import { withRetry } from './resilience';
+
+const unavailable = () => new UpstreamError('Service Unavailable', 503, new Headers());
+
+// Run a call to completion, letting its backoff sleeps pass
+async function settle<T>(promise: Promise<T>) {
+  const outcome = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  return outcome;
+}
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures up to the policy limit', async () => {
+    const operation = vi.fn().mockRejectedValue(unavailable());
+
+    const outcome = await settle(withRetry('tts', 'retries', operation));
+
+    expect(outcome).toEqual({ error: expect.any(UpstreamError) });
+    expect(operation).toHaveBeenCalledTimes(RETRY_POLICIES.tts.maxAttempts);
+  });
+
+  it('does not retry requests the provider refused', async () => {
+    const operation = vi.fn().mockRejectedValue(new UpstreamError('Unauthorized', 401, new Headers()));
+
+    await settle(withRetry('tts', 'refused', operation));
+
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit after enough calls give up, not attempts', async () => {
+    const operation = vi.fn().mockRejectedValue(unavailable());
+
+    for (let call = 1; call < CIRCUIT_BREAKER.failureThreshold; call++) {
+      await settle(withRetry('tts', 'threshold', operation));
+    }
+    // Every attempt so far failed, but only threshold - 1 calls did
+    const before = operation.mock.calls.length;
+    await settle(withRetry('tts', 'threshold', operation));
+    expect(operation.mock.calls.length).toBeGreaterThan(before);
+
+    const blocked = await settle(withRetry('tts', 'threshold', operation));
+    expect(blocked).toEqual({ error: expect.any(CircuitOpenError) });
+  });
+
+  it('lets a single trial call through once the cooldown is over', async () => {
+    const failing = vi.fn().mockRejectedValue(unavailable());
+    for (let call = 0; call < CIRCUIT_BREAKER.failureThreshold; call++) {
+      await settle(withRetry('tts', 'half-open', failing));
+    }
+    vi.advanceTimersByTime(CIRCUIT_BREAKER.cooldown);
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = withRetry('tts', 'half-open', () => new Promise<string>(resolve => { finishTrial = resolve; }));
+    const concurrent = vi.fn().mockResolvedValue('concurrent');
+
+    await expect(withRetry('tts', 'half-open', concurrent)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(concurrent).not.toHaveBeenCalled();
+
+    finishTrial('trial');
+    await expect(trial).resolves.toBe('trial');
+    await expect(withRetry('tts', 'half-open', concurrent)).resolves.toBe('concurrent');
+  });
+
+  it('reopens the circuit when the trial call fails', async () => {
+    const failing = vi.fn().mockRejectedValue(unavailable());
+    for (let call = 0; call < CIRCUIT_BREAKER.failureThreshold; call++) {
+      await settle(withRetry('tts', 'reopen', failing));
+    }
+    vi.advanceTimersByTime(CIRCUIT_BREAKER.cooldown);
+
+    const trial = await settle(withRetry('tts', 'reopen', failing));
+    expect(trial).toEqual({ error: expect.any(UpstreamError) });
+
+    const next = await settle(withRetry('tts', 'reopen', vi.fn().mockResolvedValue('ok')));
+    expect(next).toEqual({ error: expect.any(CircuitOpenError) });
+  });
+});
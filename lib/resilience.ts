@@ -0,0 +1,168 @@
+import { CIRCUIT_BREAKER, RETRY_POLICIES, ResilientCall, RetryPolicy } from '@/lib/config/resilience';
+import { CircuitOpenError } from '@/lib/types';
+
+// Breaker state per provider. It lives in the instance, which is enough to stop one
+// instance from hammering a provider that is down. Closed circuits with no failures
+// have no entry.
+interface Circuit {
+  failures: number; // calls in a row that gave up
+  openUntil: number; // 0 while closed
+  probing: boolean; // half-open: a trial call is in flight
+}
+
+const circuits = new Map<string, Circuit>();
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// OpenAI client errors carry headers as a plain record, UpstreamError as Headers
+function errorHeader(error: unknown, name: string): string | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (headers instanceof Headers) return headers.get(name) ?? undefined;
+
+  const value = headers && typeof headers === 'object'
+    ? (headers as Record<string, unknown>)[name]
+    : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+// How long the provider asked us to wait (ms), from retry-after-ms or Retry-After
+// in either its seconds or HTTP-date form
+export function retryAfterDelay(error: unknown): number | undefined {
+  const milliseconds = Number(errorHeader(error, 'retry-after-ms'));
+  if (milliseconds > 0) return milliseconds;
+
+  const value = errorHeader(error, 'retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Errors without a status never reached the provider (connection reset, DNS, ...)
+export function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof CircuitOpenError) return false;
+
+  const status = errorStatus(error);
+  return status === undefined || status >= 500 || policy.retryStatuses.includes(status);
+}
+
+// Throws while the circuit is open. Once the cooldown is over it is half-open: the
+// first caller becomes the trial call and everyone else is still turned away.
+function enterCircuit(key: string) {
+  const circuit = circuits.get(key);
+  if (!circuit || circuit.openUntil === 0) return;
+
+  const remaining = circuit.openUntil - Date.now();
+  if (remaining > 0 || circuit.probing) {
+    throw new CircuitOpenError(key, Math.max(remaining, 0));
+  }
+  circuit.probing = true;
+}
+
+// One failure per call that gave up, however many attempts it made. A failed trial
+// call reopens the circuit straight away.
+function recordFailure(key: string) {
+  const circuit = circuits.get(key) || { failures: 0, openUntil: 0, probing: false };
+  circuit.failures++;
+  if (circuit.probing || circuit.failures >= CIRCUIT_BREAKER.failureThreshold) {
+    circuit.openUntil = Date.now() + CIRCUIT_BREAKER.cooldown;
+    circuit.probing = false;
+    console.warn(`Circuit open for ${key} after ${circuit.failures} failed calls`);
+  }
+  circuits.set(key, circuit);
+}
+
+// The provider answered, even if only to refuse the request, so it is up
+function recordSuccess(key: string) {
+  circuits.delete(key);
+}
+
+// A cancelled trial call says nothing about the provider; let the next caller try
+function releaseProbe(key: string) {
+  const circuit = circuits.get(key);
+  if (circuit) circuit.probing = false;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Call a provider under the retry policy for `call`: retry transient failures with
+// jittered exponential backoff, honour Retry-After, give up at the policy's deadline
+// and skip providers whose circuit is open. `operation` gets a signal that fires on
+// the caller's abort or the deadline; after it resolves only the caller's abort is
+// passed on, so returned streams outlive the deadline.
+export async function withRetry<T>(
+  call: ResilientCall,
+  provider: string,
+  operation: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const policy = RETRY_POLICIES[call];
+  const key = `${call}:${provider}`;
+  const startedAt = Date.now();
+
+  signal?.throwIfAborted();
+  enterCircuit(key);
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const deadline = setTimeout(() => controller.abort(), policy.deadline - (Date.now() - startedAt));
+
+    try {
+      const result = await operation(controller.signal);
+      recordSuccess(key);
+      return result;
+    } catch (error) {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        releaseProbe(key);
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        recordFailure(key);
+        throw new Error(`${key} timed out after ${policy.deadline}ms`);
+      }
+      if (!isRetryable(error, policy)) {
+        recordSuccess(key);
+        throw error;
+      }
+
+      const backoff = policy.baseDelay * 2 ** (attempt - 1);
+      const delay = Math.max(backoff / 2 + Math.random() * backoff / 2, retryAfterDelay(error) ?? 0);
+      const remaining = policy.deadline - (Date.now() - startedAt);
+      if (attempt >= policy.maxAttempts || delay > policy.maxDelay || delay >= remaining) {
+        recordFailure(key);
+        throw error;
+      }
+
+      console.log(`${key} failed (${errorStatus(error) ?? 'network error'}), retry ${attempt} in ${Math.round(delay)}ms`);
+      try {
+        await sleep(delay, signal);
+      } catch (abortError) {
+        releaseProbe(key);
+        throw abortError;
+      }
+    } finally {
+      clearTimeout(deadline);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { GlossaryEntry, Language } from './types';
+import { parseGlossary } from './glossary';
+import { isLanguageGroup } from './speech/language';
+import { DEFAULT_REGISTER, isRegister, Register } from './config/register';
+import { DEFAULT_DOMAIN, isDomain } from './config/domains';
+
+// Conversation settings persisted in the browser between visits
+export interface ConversationSession {
+  languages: Language[];
+  vocabulary: string[];
+  glossary: GlossaryEntry[];
+  register: Register;
+  domain: string;
+  model?: string;
+  reasoning?: boolean;
+  qualityCheck?: boolean;
+}
+
+const SESSION_STORAGE_KEY = 'n2l-session';
+const SESSION_ID_STORAGE_KEY = 'n2l-session-id';
+
+export function loadSession(): ConversationSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+
+    const session = JSON.parse(stored);
+    if (!isLanguageGroup(session?.languages)) {
+      return null;
+    }
+
+    return {
+      languages: session.languages,
+      vocabulary: Array.isArray(session.vocabulary) ? session.vocabulary : [],
+      glossary: parseGlossary(session.glossary),
+      register: isRegister(session.register) ? session.register : DEFAULT_REGISTER,
+      domain: isDomain(session.domain) ? session.domain : DEFAULT_DOMAIN,
+      model: typeof session.model === 'string' ? session.model : undefined,
+      reasoning: session.reasoning === true,
+      qualityCheck: session.qualityCheck === true,
+    };
+  } catch (error) {
+    console.error('Failed to load session:', error);
+    return null;
+  }
+}
+
+export function saveSession(session: ConversationSession) {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Failed to save session:', error);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+// Stable per-browser id, sent as x-session-id so the API can rate limit per session
+export function getSessionId(): string {
+  try {
+    let sessionId = localStorage.getItem(SESSION_ID_STORAGE_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      localStorage.setItem(SESSION_ID_STORAGE_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return 'anonymous';
+  }
+}
+
+export function sessionHeaders(): Record<string, string> {
+  return { 'x-session-id': getSessionId() };
+}
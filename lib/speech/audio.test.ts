@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { adtsToMp4, containerFromMimeType, detectAudioFormat } from './audio';
+
+// AAC LC, 48kHz mono ADTS frames with the given payload sizes
+function adts(payloadSizes: number[]) {
+  return Uint8Array.from(payloadSizes.flatMap((size, index) => {
+    const length = 7 + size;
+    return [
+      0xff, 0xf1, (1 << 6) | (3 << 2), (1 << 6) | ((length >> 11) & 0x03),
+      (length >> 3) & 0xff, ((length & 0x07) << 5) | 0x1f, 0xfc,
+      ...Array<number>(size).fill(index),
+    ];
+  }));
+}
+
+function findBox(bytes: Uint8Array, type: string) {
+  const index = new TextDecoder('latin1').decode(bytes).indexOf(type);
+  return index < 0 ? null : new DataView(bytes.buffer, bytes.byteOffset + index - 4);
+}
+
+describe('adtsToMp4', () => {
+  it('rewraps ADTS frames as M4A', () => {
+    const input = adts([100, 120, 90]);
+    expect(detectAudioFormat(input)).toBe('aac');
+
+    const output = adtsToMp4(input)!;
+    expect(detectAudioFormat(output)).toBe('mp4');
+
+    // One table entry per frame, with the ADTS headers stripped
+    const stsz = findBox(output, 'stsz')!;
+    expect(stsz.getUint32(16)).toBe(3);
+    expect([stsz.getUint32(20), stsz.getUint32(24), stsz.getUint32(28)]).toEqual([100, 120, 90]);
+
+    const mdat = findBox(output, 'mdat')!;
+    expect(mdat.getUint32(0)).toBe(8 + 310);
+
+    // The chunk offset points at the first frame's payload
+    const stco = findBox(output, 'stco')!;
+    const dataOffset = stco.getUint32(16);
+    expect(output[dataOffset]).toBe(0);
+    expect(output[dataOffset + 100]).toBe(1);
+    expect(output[dataOffset + 220]).toBe(2);
+  });
+
+  it('rejects streams that are not ADTS', () => {
+    expect(adtsToMp4(new Uint8Array(64))).toBeNull();
+    expect(adtsToMp4(adts([100]).subarray(0, 50))).toBeNull();
+  });
+});
+
+describe('containerFromMimeType', () => {
+  it('ignores codec parameters', () => {
+    expect(containerFromMimeType('audio/webm;codecs=opus')).toBe('webm');
+    expect(containerFromMimeType('audio/mp4')).toBe('mp4');
+  });
+
+  it('returns null for unknown types', () => {
+    expect(containerFromMimeType('')).toBeNull();
+    expect(containerFromMimeType('video/x-unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+import { AudioContainer } from '@/lib/config/speech';
+
+export const AUDIO_FORMATS: { [container in AudioContainer]: { mimeType: string; extension: string } } = {
+  webm: { mimeType: 'audio/webm', extension: 'webm' },
+  ogg: { mimeType: 'audio/ogg', extension: 'ogg' },
+  wav: { mimeType: 'audio/wav', extension: 'wav' },
+  mp4: { mimeType: 'audio/mp4', extension: 'm4a' },
+  aac: { mimeType: 'audio/aac', extension: 'aac' },
+  mp3: { mimeType: 'audio/mpeg', extension: 'mp3' },
+  flac: { mimeType: 'audio/flac', extension: 'flac' },
+};
+
+export interface WavInfo {
+  audioFormat: number; // 1 = PCM
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+  duration: number; // seconds
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+// Identify the container from its magic bytes; the browser-reported MIME type is not reliable
+export function detectAudioFormat(bytes: Uint8Array): AudioContainer | null {
+  if (bytes.length < 12) return null;
+
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+
+  // Raw MPEG frames: 12-bit sync word, then the layer bits tell ADTS AAC (00) from MP3
+  if (bytes[0] === 0xff && (bytes[1] & 0xf0) === 0xf0) {
+    return (bytes[1] & 0x06) === 0 ? 'aac' : 'mp3';
+  }
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'mp3';
+
+  return null;
+}
+
+// Fall back to the declared MIME type ("audio/webm;codecs=opus" counts as webm) when
+// the bytes are not recognized, e.g. a recording that does not start at a header
+export function containerFromMimeType(mimeType: string): AudioContainer | null {
+  const baseType = mimeType.split(';')[0].trim().toLowerCase();
+  const match = Object.entries(AUDIO_FORMATS).find(([, format]) => format.mimeType === baseType);
+  return match ? match[0] as AudioContainer : null;
+}
+
+export function getWavInfo(bytes: Uint8Array): WavInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength' | 'duration'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunkId = ascii(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= bytes.length) {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === 'data' && format) {
+      // Streaming recorders leave the size at 0 or 0xFFFFFFFF, so clamp to what we have
+      const dataLength = Math.min(chunkSize || Infinity, bytes.length - body);
+      const bytesPerSecond = format.sampleRate * format.channels * (format.bitsPerSample / 8);
+
+      return {
+        ...format,
+        dataOffset: body,
+        dataLength,
+        duration: bytesPerSecond > 0 ? dataLength / bytesPerSecond : 0,
+      };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+// Downmix 16-bit PCM WAV to mono and linearly resample it. Returns null for
+// encodings we cannot convert, in which case the original audio is sent as is.
+export function resampleWav(bytes: Uint8Array, info: WavInfo, targetRate: number): Uint8Array | null {
+  if (info.audioFormat !== 1 || info.bitsPerSample !== 16 || info.channels < 1) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frameCount = Math.floor(info.dataLength / (2 * info.channels));
+  const mono = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < info.channels; channel++) {
+      sum += view.getInt16(info.dataOffset + (frame * info.channels + channel) * 2, true);
+    }
+    mono[frame] = sum / info.channels;
+  }
+
+  const ratio = info.sampleRate / targetRate;
+  const outputFrames = Math.floor(frameCount / ratio);
+  const output = new Uint8Array(44 + outputFrames * 2);
+  const out = new DataView(output.buffer);
+
+  const writeAscii = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) output[offset + i] = value.charCodeAt(i);
+  };
+
+  writeAscii(0, 'RIFF');
+  out.setUint32(4, 36 + outputFrames * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  out.setUint32(16, 16, true);
+  out.setUint16(20, 1, true); // PCM
+  out.setUint16(22, 1, true); // mono
+  out.setUint32(24, targetRate, true);
+  out.setUint32(28, targetRate * 2, true);
+  out.setUint16(32, 2, true);
+  out.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  out.setUint32(40, outputFrames * 2, true);
+
+  for (let i = 0; i < outputFrames; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, frameCount - 1);
+    const sample = mono[index] + (mono[next] - mono[index]) * (position - index);
+    out.setInt16(44 + i * 2, Math.max(-32768, Math.min(32767, Math.round(sample))), true);
+  }
+
+  return output;
+}
+
+// ADTS sampling frequency index -> Hz
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+function uint(value: number, bytes: number) {
+  const out = new Uint8Array(bytes);
+  for (let i = 0; i < bytes; i++) out[i] = (value / 2 ** (8 * (bytes - 1 - i))) & 0xff;
+  return out;
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function box(type: string, ...parts: Uint8Array[]) {
+  const body = concat(parts);
+  const typeBytes = Uint8Array.from(type, char => char.charCodeAt(0));
+  return concat([uint(8 + body.length, 4), typeBytes, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...parts: Uint8Array[]) {
+  return box(type, uint(version, 1), uint(flags, 3), ...parts);
+}
+
+// Rewrap raw ADTS AAC frames in an M4A container without re-encoding, for providers
+// that take AAC in MP4 but not bare ADTS. Returns null for streams we cannot rewrap.
+export function adtsToMp4(bytes: Uint8Array): Uint8Array | null {
+  const frames: Uint8Array[] = [];
+  let config: { profile: number; rateIndex: number; channels: number } | null = null;
+
+  for (let offset = 0; offset + 7 <= bytes.length;) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xf6) !== 0xf0) return null;
+
+    const headerLength = bytes[offset + 1] & 0x01 ? 7 : 9; // 9 when a CRC follows
+    const frameLength = ((bytes[offset + 3] & 0x03) << 11) | (bytes[offset + 4] << 3) | (bytes[offset + 5] >> 5);
+    const rawBlocks = bytes[offset + 6] & 0x03;
+    if (frameLength <= headerLength || offset + frameLength > bytes.length || rawBlocks !== 0) return null;
+
+    config ??= {
+      profile: bytes[offset + 2] >> 6,
+      rateIndex: (bytes[offset + 2] >> 2) & 0x0f,
+      channels: ((bytes[offset + 2] & 0x01) << 2) | (bytes[offset + 3] >> 6),
+    };
+    frames.push(bytes.subarray(offset + headerLength, offset + frameLength));
+    offset += frameLength;
+  }
+
+  if (!config || frames.length === 0) return null;
+  const sampleRate = ADTS_SAMPLE_RATES[config.rateIndex];
+  if (!sampleRate || config.channels === 0) return null;
+
+  const duration = frames.length * 1024; // samples; one AAC frame is 1024 of them
+  const matrix = concat([uint(0x00010000, 4), uint(0, 12), uint(0x00010000, 4), uint(0, 12), uint(0x40000000, 4)]);
+  const audioSpecificConfig = ((config.profile + 1) << 11) | (config.rateIndex << 7) | (config.channels << 3);
+
+  // Every frame goes in one chunk, so the sample table needs a single chunk offset
+  const moov = (dataOffset: number) => box('moov',
+    fullBox('mvhd', 0, 0, uint(0, 8), uint(sampleRate, 4), uint(duration, 4), uint(0x00010000, 4),
+      uint(0x0100, 2), uint(0, 10), matrix, uint(0, 24), uint(2, 4)),
+    box('trak',
+      fullBox('tkhd', 0, 3, uint(0, 8), uint(1, 4), uint(0, 4), uint(duration, 4), uint(0, 8),
+        uint(0, 4), uint(0x0100, 2), uint(0, 2), matrix, uint(0, 8)),
+      box('mdia',
+        fullBox('mdhd', 0, 0, uint(0, 8), uint(sampleRate, 4), uint(duration, 4), uint(0x55c4, 2), uint(0, 2)),
+        fullBox('hdlr', 0, 0, uint(0, 4), Uint8Array.from('soun', char => char.charCodeAt(0)), uint(0, 12),
+          Uint8Array.from('SoundHandler\0', char => char.charCodeAt(0))),
+        box('minf',
+          fullBox('smhd', 0, 0, uint(0, 4)),
+          box('dinf', fullBox('dref', 0, 0, uint(1, 4), fullBox('url ', 0, 1))),
+          box('stbl',
+            fullBox('stsd', 0, 0, uint(1, 4),
+              box('mp4a', uint(0, 6), uint(1, 2), uint(0, 8), uint(config.channels, 2), uint(16, 2),
+                uint(0, 4), uint(Math.min(sampleRate, 0xffff) * 0x10000, 4),
+                fullBox('esds', 0, 0,
+                  // ES, decoder config (AAC audio) and decoder specific info descriptors
+                  Uint8Array.from([0x03, 25, 0, 1, 0, 0x04, 17, 0x40, 0x15, 0, 0, 0]),
+                  uint(0, 8),
+                  Uint8Array.from([0x05, 2]), uint(audioSpecificConfig, 2),
+                  Uint8Array.from([0x06, 1, 0x02])))),
+            fullBox('stts', 0, 0, uint(1, 4), uint(frames.length, 4), uint(1024, 4)),
+            fullBox('stsc', 0, 0, uint(1, 4), uint(1, 4), uint(frames.length, 4), uint(1, 4)),
+            fullBox('stsz', 0, 0, uint(0, 4), uint(frames.length, 4), ...frames.map(frame => uint(frame.length, 4))),
+            fullBox('stco', 0, 0, uint(1, 4), uint(dataOffset, 4)))))));
+
+  const ftyp = box('ftyp', Uint8Array.from('M4A \0\0\0\0M4A isommp42', char => char.charCodeAt(0)));
+  const headerLength = ftyp.length + moov(0).length;
+  return concat([ftyp, moov(headerLength + 8), box('mdat', ...frames)]);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { detectHallucination } from './hallucination';
+
+describe('detectHallucination', () => {
+  it.each([
+    '100000원',
+    '네네네네',
+    'no no no no',
+    '하하하하하하',
+    '1 2 3 4 5 1 2 3 4 5 1 2 3 4 5 1 2 3 4 5',
+  ])('keeps short or numeric repeats: %s', (text) => {
+    expect(detectHallucination({ text, language: 'ko' })).toBeNull();
+  });
+
+  it.each([
+    ['Thank you. Thank you. Thank you. Thank you.', 'thank you'],
+    ['감사합니다 감사합니다 감사합니다 감사합니다 감사합니다', '감사합니다'],
+    ['I see it. I see it. I see it. I see it. I see it.', 'i see it'],
+  ])('flags decoder loops: %s', (text, unit) => {
+    expect(detectHallucination({ text })).toEqual({ reason: 'repetition', details: `Repeated "${unit}"` });
+  });
+
+  it('ignores a loop that is only a small part of the transcript', () => {
+    const text = 'hello hello hello hello, and then we walked to the station together and bought tickets for the train';
+    expect(detectHallucination({ text })).toBeNull();
+  });
+
+  it('flags blocklisted phrases', () => {
+    expect(detectHallucination({ text: 'Thanks for watching!', language: 'english' })?.reason).toBe('blocklist');
+  });
+});
@@ -0,0 +1,107 @@
+import { HALLUCINATION_CONFIG, HallucinationConfig } from '@/lib/config/speech';
+
+export type HallucinationReason = 'blocklist' | 'repetition' | 'textTooLong' | 'audioTooShort';
+
+export interface HallucinationResult {
+  reason: HallucinationReason;
+  details: string;
+}
+
+interface HallucinationInput {
+  text: string;
+  language?: string; // ISO 639-1 code or whisper's English language name
+  duration?: number; // seconds of accepted speech
+}
+
+// Whisper reports names, blocklists are keyed by code
+const LANGUAGE_NAME_CODES: { [name: string]: string } = {
+  english: 'en',
+  korean: 'ko',
+  japanese: 'ja',
+  chinese: 'zh',
+};
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getBlocklist(language: string | undefined, config: HallucinationConfig) {
+  const key = language?.trim().toLowerCase() ?? '';
+  const code = LANGUAGE_NAME_CODES[key] ?? key;
+
+  return [
+    ...(config.blocklists['*'] ?? []),
+    ...(config.blocklists[code] ?? []),
+  ];
+}
+
+// A word or phrase repeated back to back, if it is long enough and
+// covers enough of the transcript. Single characters and numbers never count, so
+// "네네네네", "no no no no" and "100000원" are left alone.
+function findRepetition(normalized: string, config: HallucinationConfig): string | null {
+  const words = normalized.split(' ');
+
+  for (let unitWords = 1; unitWords <= config.maxRepeatedUnitWords; unitWords++) {
+    for (let start = 0; start + unitWords * config.minRepetitions <= words.length; start++) {
+      const unit = words.slice(start, start + unitWords).join(' ');
+      if (unit.length < config.minRepeatedUnitLength || !/\p{L}/u.test(unit)) continue;
+
+      let repetitions = 1;
+      while (words.slice(start + repetitions * unitWords, start + (repetitions + 1) * unitWords).join(' ') === unit) {
+        repetitions++;
+      }
+
+      const covered = repetitions * (unit.length + 1) - 1;
+      if (repetitions >= config.minRepetitions && covered / normalized.length >= config.minPhraseCoverage) {
+        return unit;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Run after transcription and quality gating; returns null when the text looks genuine
+export function detectHallucination(
+  { text, language, duration }: HallucinationInput,
+  config: HallucinationConfig = HALLUCINATION_CONFIG
+): HallucinationResult | null {
+  const normalized = normalize(text);
+  if (!normalized) return null;
+
+  // 1. Known phantom phrases making up most of the transcript
+  for (const phrase of getBlocklist(language, config)) {
+    const normalizedPhrase = normalize(phrase);
+    if (
+      normalizedPhrase &&
+      normalized.includes(normalizedPhrase) &&
+      normalizedPhrase.length / normalized.length >= config.minPhraseCoverage
+    ) {
+      return { reason: 'blocklist', details: `Matched blocklisted phrase "${phrase}"` };
+    }
+  }
+
+  // 2. Decoder loops: the same words repeated back to back
+  const loop = findRepetition(normalized, config);
+  if (loop) {
+    return { reason: 'repetition', details: `Repeated "${loop}"` };
+  }
+
+  // 3. Text that could not have been spoken in the available audio
+  if (duration !== undefined) {
+    if (duration < config.minSpeechDuration) {
+      return { reason: 'audioTooShort', details: `Only ${duration.toFixed(2)}s of speech` };
+    }
+
+    const charsPerSecond = normalized.replace(/\s/g, '').length / duration;
+    if (charsPerSecond > config.maxCharsPerSecond) {
+      return { reason: 'textTooLong', details: `${charsPerSecond.toFixed(1)} characters per second` };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,34 @@
+import { Language } from '@/lib/types';
+
+// A conversation is a pair, or a group of up to five for multi-party sessions
+export const MIN_LANGUAGES = 2;
+export const MAX_LANGUAGES = 5;
+
+export function isLanguageList(value: unknown): value is Language[] {
+  return Array.isArray(value) && value.every(language =>
+    typeof language?.code === 'string' && typeof language?.name === 'string'
+  );
+}
+
+// Two to five distinct languages
+export function isLanguageGroup(value: unknown): value is Language[] {
+  return isLanguageList(value) &&
+    value.length >= MIN_LANGUAGES &&
+    value.length <= MAX_LANGUAGES &&
+    new Set(value.map(language => language.code.toLowerCase())).size === value.length;
+}
+
+// Whisper reports the detected language as an English name ("korean"), while some
+// self-hosted servers report the ISO 639-1 code ("ko"). Accept either.
+export function findPairLanguage(
+  detected: string,
+  languages: Language[]
+): Language | undefined {
+  const normalized = detected.trim().toLowerCase();
+  if (!normalized) return undefined;
+
+  return languages.find(language =>
+    language.code.toLowerCase() === normalized ||
+    language.name.toLowerCase() === normalized
+  );
+}
@@ -0,0 +1,309 @@
+import { AUDIO_LIMITS, DEFAULT_STT_PROVIDER, getSpeechConfig, STT_CONFIGS } from '@/lib/config/speech';
+import { transcribeAudio } from './transcribe';
+import { findPairLanguage, isLanguageGroup } from './language';
+import { assessQuality, ScoredSegment } from './quality';
+import { detectHallucination } from './hallucination';
+import { adtsToMp4, AUDIO_FORMATS, containerFromMimeType, detectAudioFormat, getWavInfo, resampleWav } from './audio';
+import { formatTranscriptionPrompt, parseVocabulary } from '@/lib/vocabulary';
+import { detectByScript } from '@/lib/translation/direction';
+import { CircuitOpenError, Language, SpeechProcessingError } from '@/lib/types';
+
+export interface SpeechRequest {
+  audio: Blob;
+  languages: Language[] | null;
+  vocabulary: string[];
+  provider: string;
+}
+
+export interface SpeechResult {
+  text: string;
+  language: string;
+  languageCode?: string;
+  quality: {
+    confidence: number;
+    speechProb: number;
+    segments: ScoredSegment[];
+  };
+  metrics: {
+    sttLatency: number;
+    provider: string;
+  };
+}
+
+function parseJsonField<T>(value: FormDataEntryValue | null, parse: (parsed: unknown) => T, error: string): T | null {
+  if (!value || typeof value !== 'string') return null;
+
+  try {
+    return parse(JSON.parse(value));
+  } catch (e) {
+    throw new SpeechProcessingError(error, 400, e instanceof Error ? e.message : 'Unknown parsing error');
+  }
+}
+
+// Read the speech fields shared by /api/speech and /api/pipeline
+export function parseSpeechForm(formData: FormData): SpeechRequest {
+  const audio = formData.get('audio');
+  const providerField = formData.get('provider');
+
+  const languages = parseJsonField(formData.get('languages'), parsed => {
+    if (!isLanguageGroup(parsed)) {
+      throw new Error('Expected two to five distinct { code, name } languages');
+    }
+    return parsed;
+  }, 'Invalid language configuration');
+
+  const vocabulary = parseJsonField(formData.get('vocabulary'), parseVocabulary, 'Invalid vocabulary') ?? [];
+
+  if (!audio || !(audio instanceof Blob)) {
+    throw new SpeechProcessingError(
+      'Invalid audio file',
+      400,
+      'The audio file is missing or in an incorrect format'
+    );
+  }
+
+  // Per-request provider override, falling back to the deployment default
+  const provider = typeof providerField === 'string' && providerField
+    ? providerField
+    : DEFAULT_STT_PROVIDER;
+
+  if (!STT_CONFIGS[provider]) {
+    throw new SpeechProcessingError('Invalid speech provider', 400, `Unknown speech provider: ${provider}`);
+  }
+
+  return { audio, languages, vocabulary, provider };
+}
+
+// Validate, transcribe and quality-gate a recording
+export async function processSpeech({ audio: audioFile, languages, vocabulary, provider }: SpeechRequest): Promise<SpeechResult> {
+  const startTime = performance.now();
+
+  if (audioFile.size > AUDIO_LIMITS.maxBytes) {
+    throw new SpeechProcessingError(
+      'Audio file too large',
+      413,
+      `Recordings are limited to ${AUDIO_LIMITS.maxBytes / (1024 * 1024)} MB`
+    );
+  }
+
+  const speechConfig = getSpeechConfig(provider);
+
+  // Trust the bytes, not the browser-reported MIME type or file name
+  let audioBytes: Uint8Array = new Uint8Array(await audioFile.arrayBuffer());
+  let container = detectAudioFormat(audioBytes);
+
+  if (!container) {
+    // Let the provider judge audio we cannot sniff rather than rejecting it here
+    container = containerFromMimeType(audioFile.type);
+    console.warn(`Unrecognized audio bytes, forwarding as declared type: ${audioFile.type || 'none'}`);
+  }
+
+  // Providers that only take AAC inside MP4 get the ADTS frames rewrapped
+  if (container === 'aac' && !speechConfig.formats.includes('aac') && speechConfig.formats.includes('mp4')) {
+    const remuxed = adtsToMp4(audioBytes);
+    if (remuxed) {
+      console.log('Rewrapped ADTS AAC audio as M4A');
+      audioBytes = remuxed;
+      container = 'mp4';
+    }
+  }
+
+  if (!container || !speechConfig.formats.includes(container)) {
+    throw new SpeechProcessingError(
+      'Unsupported audio format',
+      415,
+      container
+        ? `${container} audio is not supported by the ${provider} speech provider`
+        : 'The audio format could not be recognized'
+    );
+  }
+
+  const wavInfo = container === 'wav' ? getWavInfo(audioBytes) : null;
+  if (wavInfo && wavInfo.duration > AUDIO_LIMITS.maxDuration) {
+    throw new SpeechProcessingError(
+      'Audio too long',
+      413,
+      `Recordings are limited to ${AUDIO_LIMITS.maxDuration} seconds`
+    );
+  }
+
+  if (wavInfo && speechConfig.sampleRate && wavInfo.sampleRate !== speechConfig.sampleRate) {
+    const resampled = resampleWav(audioBytes, wavInfo, speechConfig.sampleRate);
+    if (resampled) {
+      console.log(`Resampled audio from ${wavInfo.sampleRate}Hz to ${speechConfig.sampleRate}Hz`);
+      audioBytes = resampled;
+    }
+  }
+
+  const { mimeType, extension } = AUDIO_FORMATS[container];
+  const audio = new Blob([audioBytes], { type: mimeType });
+  const fileName = `audio.${extension}`;
+
+  const prompt = formatTranscriptionPrompt(vocabulary);
+  let transcription = await transcribeAudio(audio, speechConfig, { fileName, mimeType, prompt });
+  let pairLanguage = languages
+    ? findPairLanguage(transcription.language, languages)
+    : undefined;
+
+  // Whisper only takes a single language hint, so the first pass auto-detects. If
+  // it lands outside the pair, re-run with one pair language at a time, starting
+  // with the one the first pass's script points at, until a hint yields usable text.
+  if (languages && !pairLanguage && transcription.segments.length > 0) {
+    console.log(`Detected language outside pair: ${transcription.language}, re-running with hints`);
+
+    const likely = detectByScript(transcription.text, languages);
+    const candidates = likely ? [likely, ...languages.filter(language => language !== likely)] : languages;
+
+    for (const language of candidates) {
+      const hinted = await transcribeAudio(audio, speechConfig, { fileName, mimeType, language: language.code, prompt });
+      if (assessQuality(hinted.segments).text) {
+        transcription = hinted;
+        pairLanguage = language;
+        break;
+      }
+    }
+
+    if (!pairLanguage) {
+      throw new SpeechProcessingError(
+        'Language mismatch',
+        422,
+        `Detected ${transcription.language || 'an unknown language'}. Please speak ${languages.map(language => language.name).join(' or ')}.`,
+        {
+          languageMismatch: {
+            detected: transcription.language,
+            expected: languages
+          }
+        }
+      );
+    }
+  }
+
+  const sttLatency = performance.now() - startTime;
+  console.log(`STT Latency: ${sttLatency}ms`);
+
+  // Compressed containers rarely carry a duration header, so this is checked after the fact
+  if (transcription.duration !== undefined && transcription.duration > AUDIO_LIMITS.maxDuration) {
+    throw new SpeechProcessingError(
+      'Audio too long',
+      413,
+      `Recordings are limited to ${AUDIO_LIMITS.maxDuration} seconds`
+    );
+  }
+
+  if (transcription.segments.length === 0) {
+    throw new SpeechProcessingError(
+      'No voice detected',
+      400,
+      'The audio recording contains no recognizable speech. Please speak clearly into your microphone.'
+    );
+  }
+
+  // Drop bad segments individually instead of judging the whole clip by its opening
+  const quality = assessQuality(transcription.segments);
+  if (!quality.text) {
+    throw new SpeechProcessingError(
+      'Low quality speech detected',
+      400,
+      'The audio quality is too low for accurate transcription'
+    );
+  }
+
+  const cleanText = quality.text;
+  if (cleanText.length < 2) {
+    throw new SpeechProcessingError(
+      'Speech too short',
+      400,
+      'Please speak a complete sentence for accurate translation'
+    );
+  }
+
+  // Timestamps are optional on some servers; skip the duration heuristics without them
+  const speechDuration = quality.segments
+    .filter(segment => segment.accepted)
+    .reduce((sum, segment) => sum + Math.max(segment.end - segment.start, 0), 0);
+
+  const hallucination = detectHallucination({
+    text: cleanText,
+    language: pairLanguage?.code ?? transcription.language,
+    duration: speechDuration > 0 ? speechDuration : undefined
+  });
+
+  if (hallucination) {
+    console.log('Ignoring likely whisper hallucination:', cleanText, hallucination);
+    // Same error as an empty clip, so the client ignores it instead of showing it
+    throw new SpeechProcessingError(
+      'No speech detected',
+      400,
+      'The transcription looks like a speech recognition hallucination',
+      { hallucination }
+    );
+  }
+
+  return {
+    text: cleanText,
+    // Report the pair's own name so clients can compare it with the selected languages
+    language: pairLanguage?.name ?? transcription.language,
+    languageCode: pairLanguage?.code,
+    quality: {
+      confidence: quality.confidence,
+      speechProb: quality.speechProb,
+      segments: quality.segments
+    },
+    metrics: {
+      sttLatency,
+      provider
+    }
+  };
+}
+
+// Map any speech pipeline failure onto the status and body clients expect
+export function describeSpeechError(error: unknown): { status: number; body: Record<string, unknown> } {
+  if (error instanceof SpeechProcessingError) {
+    return {
+      status: error.status,
+      body: { error: error.message, details: error.details, ...error.extra }
+    };
+  }
+
+  console.error('Speech-to-text error:', {
+    error: error instanceof Error ? error.message : 'Unknown error',
+    type: error instanceof Error ? error.constructor.name : typeof error
+  });
+
+  let errorMessage = 'Network error occurred';
+  let errorDetails = '';
+  let statusCode = 500;
+
+  if (error instanceof Error) {
+    if (error instanceof CircuitOpenError) {
+      errorMessage = 'Speech Service Unavailable';
+      errorDetails = 'Speech recognition is failing right now. Please try again shortly.';
+      statusCode = 503;
+    } else if (error.message.includes('404') || error.message.includes('Not Found')) {
+      errorMessage = 'Network Access Restricted';
+      errorDetails = 'Service access may be limited on mobile data. Please try using a Wi-Fi connection or VPN.';
+      statusCode = 403;
+    } else if (error.message.includes('Cloudflare') || error.message.includes('<!DOCTYPE html>')) {
+      errorMessage = 'Network Access Restricted';
+      errorDetails = 'Service access may be limited on mobile data. Please try using a Wi-Fi connection or VPN.';
+      statusCode = 403;
+    } else if (error.message.includes('Failed to fetch') || error.message.includes('network')) {
+      errorMessage = 'Network Connection Failed';
+      errorDetails = 'Network connection is unstable. Please check your internet connection and try again.';
+      statusCode = 503;
+    } else {
+      errorMessage = 'Processing Error';
+      errorDetails = error.message;
+    }
+  }
+
+  return {
+    status: statusCode,
+    body: {
+      error: errorMessage,
+      details: errorDetails,
+      timestamp: new Date().toISOString(),
+      requestId: Math.random().toString(36).substring(7)
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import { TranscriptionSegment } from './transcribe';
+
+// Per-segment thresholds, following whisper's own silence/hallucination heuristics
+export const QUALITY_THRESHOLDS = {
+  maxNoSpeechProb: 0.5,
+  minAvgLogprob: -1,
+  minCompressionRatio: 0,
+  maxCompressionRatio: 10,
+};
+
+export type SegmentIssue = 'noSpeech' | 'lowConfidence' | 'unusualCompression';
+
+export interface ScoredSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+  speechProb: number;
+  accepted: boolean;
+  issues: SegmentIssue[];
+}
+
+export interface QualityReport {
+  text: string; // accepted segments only
+  confidence: number;
+  speechProb: number;
+  segments: ScoredSegment[];
+}
+
+function scoreSegment(segment: TranscriptionSegment): ScoredSegment {
+  const issues: SegmentIssue[] = [];
+
+  if (segment.noSpeechProb > QUALITY_THRESHOLDS.maxNoSpeechProb) {
+    issues.push('noSpeech');
+  }
+  if (segment.avgLogprob < QUALITY_THRESHOLDS.minAvgLogprob) {
+    issues.push('lowConfidence');
+  }
+  if (
+    segment.compressionRatio < QUALITY_THRESHOLDS.minCompressionRatio ||
+    segment.compressionRatio > QUALITY_THRESHOLDS.maxCompressionRatio
+  ) {
+    issues.push('unusualCompression');
+  }
+
+  return {
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    confidence: Math.exp(segment.avgLogprob),
+    speechProb: 1 - segment.noSpeechProb,
+    accepted: issues.length === 0,
+    issues,
+  };
+}
+
+// Score every segment, drop the bad ones and aggregate the rest weighted by duration
+export function assessQuality(segments: TranscriptionSegment[]): QualityReport {
+  const scored = segments.map(scoreSegment);
+  const accepted = segments.filter((_, index) => scored[index].accepted);
+
+  // Zero-length segments (some servers omit timestamps) still count once
+  const weights = accepted.map(segment => Math.max(segment.end - segment.start, 0) || 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weightedAverage = (values: number[]) => totalWeight === 0
+    ? 0
+    : values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight;
+
+  return {
+    // Raw segment text keeps whisper's own spacing, which matters for CJK
+    text: accepted.map(segment => segment.text).join('').trim(),
+    confidence: weightedAverage(accepted.map(segment => Math.exp(segment.avgLogprob))),
+    speechProb: weightedAverage(accepted.map(segment => 1 - segment.noSpeechProb)),
+    segments: scored,
+  };
+}
@@ -0,0 +1,93 @@
+import OpenAI from 'openai';
+import { SpeechProviderConfig } from '@/lib/config/speech';
+import { withRetry } from '@/lib/resilience';
+
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  avgLogprob: number;
+  noSpeechProb: number;
+  compressionRatio: number;
+}
+
+// Provider-independent transcription result
+export interface TranscriptionResult {
+  text: string;
+  language: string;
+  duration?: number;
+  segments: TranscriptionSegment[];
+}
+
+interface TranscribeOptions {
+  fileName?: string;
+  mimeType?: string;
+  language?: string; // ISO 639-1 hint; skips whisper's own language detection
+  prompt?: string; // Biasing prompt, e.g. custom vocabulary
+}
+
+// Raw verbose_json payload. Self-hosted servers are not always strict about types,
+// so everything is treated as optional and normalized below.
+interface RawVerboseTranscription {
+  text?: string;
+  language?: string;
+  duration?: number | string;
+  segments?: Array<{
+    start?: number;
+    end?: number;
+    text?: string;
+    avg_logprob?: number;
+    no_speech_prob?: number;
+    compression_ratio?: number;
+  }>;
+}
+
+function normalizeTranscription(raw: RawVerboseTranscription): TranscriptionResult {
+  const duration = Number(raw.duration);
+
+  return {
+    text: raw.text ?? '',
+    language: raw.language ?? '',
+    duration: Number.isFinite(duration) ? duration : undefined,
+    segments: (raw.segments ?? []).map(segment => ({
+      start: segment.start ?? 0,
+      end: segment.end ?? 0,
+      text: segment.text ?? '',
+      avgLogprob: segment.avg_logprob ?? 0,
+      noSpeechProb: segment.no_speech_prob ?? 0,
+      compressionRatio: segment.compression_ratio ?? 1,
+    })),
+  };
+}
+
+// Transcribe audio with the given provider and map the response onto TranscriptionResult
+export async function transcribeAudio(
+  audio: Blob,
+  config: SpeechProviderConfig,
+  options?: TranscribeOptions
+): Promise<TranscriptionResult> {
+  const client = new OpenAI({
+    baseURL: config.baseURL,
+    apiKey: config.apiKey,
+    maxRetries: 0, // lib/resilience.ts handles retries
+  });
+
+  const file = await OpenAI.toFile(
+    new Blob([await audio.arrayBuffer()], { type: options?.mimeType || audio.type || 'audio/webm' }),
+    options?.fileName || 'audio.webm'
+  );
+
+  // One circuit per speech server
+  const transcription = await withRetry('speech', new URL(config.baseURL).host, (signal) =>
+    client.audio.transcriptions.create({
+      file,
+      model: config.model,
+      temperature: config.temperature,
+      response_format: 'verbose_json',
+      ...(options?.language && { language: options.language }),
+      ...(options?.prompt && { prompt: options.prompt }),
+    }, { signal })
+  );
+
+  return normalizeTranscription(transcription as RawVerboseTranscription);
+}
@@ -0,0 +1,84 @@
+import { UpstreamError } from '@/lib/types';
+import { withRetry } from '@/lib/resilience';
+
+// ElevenLabs API configuration
+export type TTSConfig = {
+  apiKey: string;
+  voiceId: string;
+};
+
+export function getTTSConfig(): TTSConfig | null {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  const voiceId = process.env.ELEVENLABS_VOICE_ID;
+
+  if (!apiKey || !voiceId) {
+    return null;
+  }
+
+  return { apiKey, voiceId };
+}
+
+// Stream MP3 audio for the given text from ElevenLabs
+export async function synthesizeSpeech(
+  text: string,
+  config: TTSConfig,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await withRetry('tts', 'elevenlabs', async (attemptSignal) => {
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${config.voiceId}/stream`,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': config.apiKey,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: "eleven_flash_v2_5",
+          // output_format: "mp3_22050_32",
+          // apply_text_normalization: "off",
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75,
+            style: 0.24,
+            use_speaker_boost: true
+          }
+        }),
+        signal: attemptSignal,
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('ElevenLabs API Error:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorData
+      });
+
+      throw new UpstreamError(
+        errorData.detail ||
+        errorData.message ||
+        `API request failed with status ${response.status}`,
+        response.status,
+        response.headers
+      );
+    }
+
+    return response;
+  }, signal);
+
+  // Ensure we have a readable stream
+  if (!response.body) {
+    throw new Error('No response body from ElevenLabs API');
+  }
+
+  return response.body;
+}
+
+// Strip emojis before the text is spoken
+export function prepareSpeechText(text: string): string {
+  return text.replace(/[\u{1F300}-\u{1F9FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu, '').trim();
+}
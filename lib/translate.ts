@@ -1,35 +1,64 @@
-import { Language } from './types';
+import { GlossaryEntry, Language, LanguagePair, TranslationAlternative, TranslationResult } from './types';
+import { sessionHeaders } from './session';
 
 interface TranslationMetrics {
   firstTokenLatency?: number;
   totalLatency?: number;
   sttLatency?: number;
   translationLatency?: number;
+  model?: string;
+  requestedModel?: string;
+  cached?: boolean;
 }
 
 interface Message {
   originalText: string;
   translatedText: string;
+  sourceLang?: string;
+  targetLang?: string;
 }
 
 interface TranslationOptions {
   onPartial?: (text: string) => void;
   onMetrics?: (metrics: TranslationMetrics) => void;
-  previousMessages?: Message[];
+  onReasoning?: (text: string) => void; // receives the reasoning accumulated so far
+  previousMessages?: Message[]; // turns not yet covered by `summary`
+  summary?: string; // running summary from updateConversationMemory
+  vocabulary?: string[];
+  glossary?: GlossaryEntry[];
+  register?: string; // formal, neutral or casual
+  domain?: string; // domain prompt pack, e.g. 'medical'
+  model?: string;
+  reasoning?: boolean; // ask R1-style models to stream their <think> phase too
+  direction?: LanguagePair; // skip language detection, e.g. when the user flips a message
+  qualityCheck?: boolean; // back-translate and attach a fidelity score
+  alternatives?: number; // also suggest 2-3 differently phrased translations
+  signal?: AbortSignal; // aborting also cancels the provider stream on the server
 }
 
 export async function translateText(
   text: string, 
   languages: Language[], 
   options?: TranslationOptions
-): Promise<string> {
+): Promise<TranslationResult> {
   const response = await fetch('/api/translate', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+    signal: options?.signal,
     body: JSON.stringify({ 
       text, 
       languages,
-      previousMessages: options?.previousMessages 
+      previousMessages: options?.previousMessages,
+      summary: options?.summary,
+      vocabulary: options?.vocabulary,
+      glossary: options?.glossary,
+      register: options?.register,
+      domain: options?.domain,
+      model: options?.model,
+      reasoning: options?.reasoning,
+      direction: options?.direction,
+      qualityCheck: options?.qualityCheck,
+      alternatives: options?.alternatives
     }),
   });
 
@@ -45,44 +74,112 @@ export async function translateText(
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
   let fullTranslation = '';
+  let result: TranslationResult | null = null;
+  let streamError: string | undefined;
+  let reasoning = '';
+  let buffer = '';
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      // Decode the stream chunk and split into SSE messages
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n');
-      
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(5).trim();
-          
-          if (data === '[DONE]') {
-            return fullTranslation;
-          }
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Deltas are small and frequent, so SSE messages often span two reads
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      if (message.startsWith('data: ')) {
+        const data = message.slice(5).trim();
+        
+        if (data === '[DONE]') {
+          continue;
+        }
 
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.content) {
-              fullTranslation += parsed.content;
-              // Call the partial translation callback if provided
-              options?.onPartial?.(fullTranslation);
-            }
-            // Handle metrics if present
-            if (parsed.metrics) {
-              options?.onMetrics?.(parsed.metrics);
-            }
-          } catch (e) {
-            console.error('Error parsing SSE message:', e);
+        try {
+          const parsed = JSON.parse(data);
+          if (parsed.content) {
+            fullTranslation += parsed.content;
+            // Call the partial translation callback if provided
+            options?.onPartial?.(fullTranslation);
+          }
+          if (parsed.reasoning) {
+            reasoning += parsed.reasoning;
+            options?.onReasoning?.(reasoning);
+          }
+          if (parsed.result) {
+            result = parsed.result;
+            options?.onPartial?.(parsed.result.translation);
+          }
+          if (parsed.error) {
+            streamError = parsed.error;
+          }
+          // Handle metrics if present
+          if (parsed.metrics) {
+            options?.onMetrics?.(parsed.metrics);
           }
+        } catch (e) {
+          console.error('Error parsing SSE message:', e);
         }
       }
     }
-  } catch (error) {
-    throw error;
   }
 
-  return fullTranslation;
-} 
\ No newline at end of file
+  if (!result) {
+    throw new Error(streamError || 'Translation failed');
+  }
+
+  return result;
+}
+
+// Differently phrased versions of a translation the caller already has; nothing is
+// translated again
+export async function requestAlternatives(
+  languages: Language[],
+  alternativesFor: { text: string; translation: string; direction: LanguagePair },
+  options?: { count?: number; model?: string; domain?: string }
+): Promise<TranslationAlternative[]> {
+  const response = await fetch('/api/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+    body: JSON.stringify({
+      languages,
+      alternativesFor,
+      alternatives: options?.count,
+      model: options?.model,
+      domain: options?.domain
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load alternative translations');
+  }
+
+  return data.alternatives;
+}
+
+export interface MemoryUpdate {
+  summary: string;
+  summarizedTurns: number; // how many of the oldest turns sent the summary now covers
+}
+
+// Ask the server to fold turns that no longer fit the model's budget into the running
+// summary. Resolves to null when nothing needed folding.
+export async function updateConversationMemory(
+  languages: Language[],
+  options: { previousMessages: Message[]; summary?: string; model?: string }
+): Promise<MemoryUpdate | null> {
+  const response = await fetch('/api/memory', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+    body: JSON.stringify({ languages, ...options }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Conversation summary failed');
+  }
+
+  return data.memory;
+}
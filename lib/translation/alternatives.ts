@@ -0,0 +1,55 @@
+import { DEFAULT_MODEL } from '@/lib/config/translation';
+import { ALTERNATIVE_STYLES, ALTERNATIVES_PROMPT } from '@/lib/config/alternatives';
+import { formatDomainPrompt } from '@/lib/config/domains';
+import { TranslationAlternative, TranslationResult } from '@/lib/types';
+import { createCompletion, TranslationRequest } from './translate';
+import { delimit, escapePromptContent, fillTemplate } from './prompt';
+
+// Ask for `count` differently phrased translations of a finished one, labelled with
+// the first `count` ALTERNATIVE_STYLES
+export async function suggestAlternatives(
+  request: TranslationRequest,
+  result: TranslationResult,
+  count: number,
+  signal?: AbortSignal
+): Promise<TranslationAlternative[]> {
+  const styles = ALTERNATIVE_STYLES.slice(0, count);
+  const instructions = fillTemplate(ALTERNATIVES_PROMPT, {
+    SOURCE_LANG: escapePromptContent(result.sourceLanguage.name),
+    TARGET_LANG: escapePromptContent(result.targetLanguage.name),
+    DOMAIN: formatDomainPrompt(request.domain).DOMAIN,
+    STYLES: styles.map(style => `- ${style.label}: ${style.instructions}`).join('\n'),
+  });
+
+  const { content } = await createCompletion(request.model || DEFAULT_MODEL, [
+    { role: 'system', content: instructions },
+    { role: 'user', content: `${delimit('original', request.text)}\n${delimit('translated', result.translation)}` }
+  ], signal);
+
+  // Trust our own labels over the model's spelling of them; only the order matters
+  const translations = Array.from(
+    content.matchAll(/<alternative[^>]*>([\s\S]*?)<\/alternative>/g),
+    match => match[1].trim()
+  );
+
+  return styles
+    .map((style, index) => ({ label: style.label, translation: translations[index] || '' }))
+    .filter(alternative => alternative.translation);
+}
+
+// Attach alternatives to a result. Like the quality check this is advisory, so a
+// failure returns the result without them. Aborting `signal` still throws.
+export async function withAlternatives(
+  request: TranslationRequest,
+  result: TranslationResult,
+  count: number,
+  signal?: AbortSignal
+): Promise<TranslationResult> {
+  try {
+    return { ...result, alternatives: await suggestAlternatives(request, result, count, signal) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Alternative translations failed:', error instanceof Error ? error.message : error);
+    return result;
+  }
+}
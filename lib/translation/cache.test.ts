@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { CachedTranslation, cacheTranslation, getCachedTranslation, normalizeCacheText } from './cache';
+import type { TranslationRequest } from './translate';
+
+const LANGUAGES = [{ code: 'ko', name: 'Korean' }, { code: 'en', name: 'English' }];
+
+function cached(translation: string): CachedTranslation {
+  return { model: 'togetherai', result: { translation, sourceLanguage: LANGUAGES[0], targetLanguage: LANGUAGES[1] } };
+}
+
+describe('normalizeCacheText', () => {
+  it('ignores case, spacing and a plain full stop', () => {
+    expect(normalizeCacheText(' Thank  you. ')).toBe(normalizeCacheText('thank you'));
+  });
+
+  it('keeps questions and exclamations apart from statements', () => {
+    expect(normalizeCacheText('가요?')).not.toBe(normalizeCacheText('가요.'));
+    expect(normalizeCacheText("You're coming?")).not.toBe(normalizeCacheText("You're coming."));
+    expect(normalizeCacheText('Stop!')).not.toBe(normalizeCacheText('Stop.'));
+    expect(normalizeCacheText('가요？')).toBe(normalizeCacheText('가요?? '));
+  });
+});
+
+describe('translation cache', () => {
+  it('keys on the vocabulary', async () => {
+    const request: TranslationRequest = { text: '회의실 예약', languages: LANGUAGES, vocabulary: ['Acme'] };
+    await cacheTranslation(request, cached('Book the meeting room'));
+
+    expect(await getCachedTranslation(request)).toEqual(cached('Book the meeting room'));
+    expect(await getCachedTranslation({ ...request, vocabulary: ['Globex'] })).toBeUndefined();
+    expect(await getCachedTranslation({ ...request, vocabulary: undefined })).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { CacheConfig, TRANSLATION_CACHE } from '@/lib/config/cache';
+import { DEFAULT_MODEL } from '@/lib/config/translation';
+import { DEFAULT_REGISTER } from '@/lib/config/register';
+import { DEFAULT_DOMAIN } from '@/lib/config/domains';
+import { TranslationResult } from '@/lib/types';
+import { isKVConfigured, kvCommand } from '@/lib/kv';
+import { parseVocabulary } from '@/lib/vocabulary';
+import { TranslationRequest } from './translate';
+
+export interface CachedTranslation {
+  model: string; // MODEL_CONFIGS key that produced the result
+  result: TranslationResult;
+}
+
+// Where cached translations live. Entries expire `ttl` seconds after they are set.
+export interface CacheStore {
+  get(key: string): Promise<CachedTranslation | undefined>;
+  set(key: string, value: CachedTranslation, ttl: number): Promise<void>;
+}
+
+// Per-instance LRU. A Map iterates in insertion order, so re-inserting an entry on
+// every read keeps the least recently used one first in line for eviction.
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: CachedTranslation; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedTranslation, ttl: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Shared KV store. Expiry is handled by the server and eviction by its maxmemory
+// policy (use allkeys-lru).
+export class KVCacheStore implements CacheStore {
+  async get(key: string) {
+    const value = await kvCommand(['GET', key]);
+    return typeof value === 'string' ? JSON.parse(value) as CachedTranslation : undefined;
+  }
+
+  async set(key: string, value: CachedTranslation, ttl: number) {
+    await kvCommand(['SET', key, JSON.stringify(value), 'EX', ttl]);
+  }
+}
+
+function createCacheStore(config: CacheConfig): CacheStore | null {
+  switch (config.store) {
+    case 'none':
+      return null;
+    case 'kv':
+      if (isKVConfigured()) {
+        return new KVCacheStore();
+      }
+      console.warn('KV cache store is not configured, falling back to memory');
+      return new MemoryCacheStore(config.maxEntries);
+    default:
+      return new MemoryCacheStore(config.maxEntries);
+  }
+}
+
+const store = createCacheStore(TRANSLATION_CACHE);
+
+// " Thank  you. " and "thank you" are the same request. Sentence-final punctuation
+// only matters for its kind: "가요?" asks and "가요." states, so they stay apart.
+export function normalizeCacheText(text: string): string {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+  const ending = normalized.match(/[\s.!?\u3002\uFF01\uFF1F]+$/)?.[0] ?? '';
+  const kind = /[?\uFF1F]/.test(ending) ? '?' : /[!\uFF01]/.test(ending) ? '!' : '';
+
+  return normalized.slice(0, normalized.length - ending.length) + kind;
+}
+
+// Everything that changes the translation except conversation context, which is
+// deliberately ignored so stock phrases hit the cache mid-conversation
+async function cacheKey(request: TranslationRequest): Promise<string> {
+  const parts = [
+    normalizeCacheText(request.text),
+    request.languages.map(language => language.code).join('-'),
+    request.direction?.sourceLanguage.code || 'auto',
+    request.model || DEFAULT_MODEL,
+    request.register || DEFAULT_REGISTER,
+    request.domain || DEFAULT_DOMAIN,
+    request.glossary || [],
+    parseVocabulary(request.vocabulary),
+  ];
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `translation:${hash}`;
+}
+
+// A cache failure must never fail the translation, so both helpers only log
+export async function getCachedTranslation(request: TranslationRequest): Promise<CachedTranslation | undefined> {
+  if (!store) return undefined;
+
+  try {
+    return await store.get(await cacheKey(request));
+  } catch (error) {
+    console.error('Translation cache read failed:', error);
+    return undefined;
+  }
+}
+
+export async function cacheTranslation(request: TranslationRequest, value: CachedTranslation) {
+  // Don't pin a translation that broke the glossary
+  if (!store || value.result.glossaryMissing) return;
+
+  try {
+    await store.set(await cacheKey(request), value, TRANSLATION_CACHE.ttl);
+  } catch (error) {
+    console.error('Translation cache write failed:', error);
+  }
+}
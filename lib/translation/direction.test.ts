@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectByScript, resolveDirection, resolveSourceLanguage } from './direction';
+
+const KOREAN = { code: 'ko', name: 'Korean' };
+const ENGLISH = { code: 'en', name: 'English' };
+const JAPANESE = { code: 'ja', name: 'Japanese' };
+
+const MIXED_SCRIPT = ['Grand Hyatt 가주세요', 'Lotte Hotel 어디에요?'];
+
+describe('detectByScript', () => {
+  it('picks the only language written in the script', () => {
+    expect(detectByScript('호텔 어디에요?', [KOREAN, ENGLISH])).toBe(KOREAN);
+    expect(detectByScript('Where is the hotel?', [KOREAN, ENGLISH])).toBe(ENGLISH);
+  });
+
+  it('gives up on text that mixes the scripts of two languages', () => {
+    for (const text of MIXED_SCRIPT) {
+      expect(detectByScript(text, [KOREAN, ENGLISH])).toBeUndefined();
+    }
+  });
+
+  it('treats kanji next to kana as Japanese', () => {
+    expect(detectByScript('東京駅はどこですか', [JAPANESE, { code: 'zh', name: 'Chinese' }])).toBe(JAPANESE);
+  });
+});
+
+describe('resolveDirection', () => {
+  it.each(MIXED_SCRIPT)('follows STT for mixed-script utterance %#', (text) => {
+    expect(resolveDirection(text, [KOREAN, ENGLISH], 'ko')).toEqual({ sourceLanguage: KOREAN, targetLanguage: ENGLISH });
+    expect(resolveDirection(text, [ENGLISH, KOREAN], 'korean')).toEqual({ sourceLanguage: KOREAN, targetLanguage: ENGLISH });
+  });
+
+  it.each(MIXED_SCRIPT)('leaves mixed-script utterance %# to the model without STT', (text) => {
+    expect(resolveDirection(text, [KOREAN, ENGLISH])).toBeNull();
+  });
+
+  it('leaves the direction open when the script and STT disagree', () => {
+    expect(resolveSourceLanguage('가주세요', [KOREAN, ENGLISH], 'en')).toBeUndefined();
+    expect(resolveDirection('가주세요', [KOREAN, ENGLISH], 'en')).toBeNull();
+  });
+
+  it('uses the script when STT is missing', () => {
+    expect(resolveDirection('가주세요', [KOREAN, ENGLISH])).toEqual({ sourceLanguage: KOREAN, targetLanguage: ENGLISH });
+  });
+});
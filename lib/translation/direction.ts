@@ -0,0 +1,106 @@
+import { findPairLanguage } from '@/lib/speech/language';
+import { Language, LanguagePair } from '@/lib/types';
+
+type Script = 'latin' | 'hangul' | 'kana' | 'han' | 'cyrillic' | 'greek' | 'arabic' | 'hebrew' | 'devanagari' | 'thai';
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  latin: /[A-Za-z\u00C0-\u024F]/g,
+  hangul: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/g,
+  kana: /[\u3040-\u30FF]/g,
+  han: /[\u3400-\u4DBF\u4E00-\u9FFF]/g,
+  cyrillic: /[\u0400-\u04FF]/g,
+  greek: /[\u0370-\u03FF]/g,
+  arabic: /[\u0600-\u06FF]/g,
+  hebrew: /[\u0590-\u05FF]/g,
+  devanagari: /[\u0900-\u097F]/g,
+  thai: /[\u0E00-\u0E7F]/g,
+};
+
+// Scripts each language is written in, keyed by ISO 639-1 code. Anything not listed
+// is assumed to use the Latin alphabet.
+const LANGUAGE_SCRIPTS: Record<string, Script[]> = {
+  ko: ['hangul'],
+  ja: ['kana', 'han'],
+  zh: ['han'],
+  ru: ['cyrillic'],
+  uk: ['cyrillic'],
+  bg: ['cyrillic'],
+  sr: ['cyrillic'],
+  el: ['greek'],
+  ar: ['arabic'],
+  fa: ['arabic'],
+  ur: ['arabic'],
+  he: ['hebrew'],
+  hi: ['devanagari'],
+  mr: ['devanagari'],
+  ne: ['devanagari'],
+  th: ['thai'],
+};
+
+function scriptsOf(language: Language): Script[] {
+  return LANGUAGE_SCRIPTS[language.code.toLowerCase()] || ['latin'];
+}
+
+// Pick the conversation language whose writing system the text is in. Returns
+// undefined when the text has no letters, when languages share a script
+// (English/French), or when it mixes the scripts of two of them: in "Grand Hyatt
+// 가주세요" the Latin letters are a name, and counting them would outvote the Hangul.
+export function detectByScript(text: string, languages: Language[]): Language | undefined {
+  let scripts = (Object.keys(SCRIPT_PATTERNS) as Script[]).filter(script => text.search(SCRIPT_PATTERNS[script]) >= 0);
+  // Kana only appears in Japanese, so kanji next to it are Japanese too
+  if (scripts.includes('kana')) {
+    scripts = scripts.filter(script => script !== 'han');
+  }
+
+  const candidates = languages.filter(language => scriptsOf(language).some(script => scripts.includes(script)));
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+// Work out which conversation language the text is in from its script and, when
+// given, the language whisper detected. Returns undefined when the two disagree.
+export function resolveSourceLanguage(
+  text: string,
+  languages: Language[],
+  detectedLanguage?: string
+): Language | undefined {
+  const byScript = detectByScript(text, languages);
+  const bySpeech = detectedLanguage ? findPairLanguage(detectedLanguage, languages) : undefined;
+
+  if (byScript && bySpeech && byScript.code !== bySpeech.code) {
+    // Either could be wrong, so neither gets to pin the direction
+    console.log(`Direction: script says ${byScript.code}, STT says ${bySpeech.code}; leaving it open`);
+    return undefined;
+  }
+
+  return byScript || bySpeech;
+}
+
+// Which way to translate within a pair. Returns null when neither the script nor
+// STT settles it, leaving the model to detect the language itself.
+export function resolveDirection(
+  text: string,
+  languages: Language[],
+  detectedLanguage?: string
+): LanguagePair | null {
+  if (languages.length !== 2) return null;
+
+  const sourceLanguage = resolveSourceLanguage(text, languages, detectedLanguage);
+  if (!sourceLanguage) return null;
+
+  return {
+    sourceLanguage,
+    targetLanguage: languages.find(language => language.code !== sourceLanguage.code)!
+  };
+}
+
+// Accept a client-supplied direction only if both ends are conversation languages
+export function parseDirection(value: unknown, languages: Language[]): LanguagePair | null {
+  const direction = value as Partial<Record<keyof LanguagePair, Partial<Language>>> | null;
+  const sourceLanguage = findPairLanguage(direction?.sourceLanguage?.code || '', languages);
+  const targetLanguage = findPairLanguage(direction?.targetLanguage?.code || '', languages);
+
+  if (!sourceLanguage || !targetLanguage || sourceLanguage.code === targetLanguage.code) {
+    return null;
+  }
+  return { sourceLanguage, targetLanguage };
+}
@@ -0,0 +1,39 @@
+import { findGlossaryViolations } from '@/lib/glossary';
+import { TranslationResult } from '@/lib/types';
+import { TranslationResponseParser } from './response';
+import { createTranslationStream, translationContent, TranslationRequest } from './translate';
+
+// Check a finished translation against the glossary and retry once, calling out the
+// missing terms, if it broke it. Terms still missing afterwards are flagged on the result.
+export async function enforceGlossary(
+  request: TranslationRequest,
+  result: TranslationResult,
+  signal?: AbortSignal
+): Promise<TranslationResult> {
+  const glossary = request.glossary || [];
+  const missing = findGlossaryViolations(request.text, result.translation, glossary);
+  if (missing.length === 0) return result;
+
+  console.log('Glossary terms missing, retrying once:', missing);
+
+  try {
+    const { stream } = await createTranslationStream({ ...request, missingTerms: missing }, signal);
+    const response = new TranslationResponseParser();
+    for await (const delta of translationContent(stream)) {
+      response.push(delta);
+    }
+
+    const retried = response.finish(request.languages, { direction: request.direction });
+    const stillMissing = findGlossaryViolations(request.text, retried.translation, glossary);
+
+    // Keep whichever attempt honoured more of the glossary
+    if (stillMissing.length < missing.length) {
+      return stillMissing.length > 0 ? { ...retried, glossaryMissing: stillMissing } : retried;
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Glossary retry failed:', error instanceof Error ? error.message : error);
+  }
+
+  return { ...result, glossaryMissing: missing };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { MEMORY_CONFIG } from '@/lib/config/memory';
+import { contextWindowStart, parseContextMessages } from './memory';
+
+function turns(count: number) {
+  return Array.from({ length: count }, (_, index) => ({ originalText: `turn ${index}`, translatedText: `${index}` }));
+}
+
+describe('contextWindowStart', () => {
+  it('skips turns the summary already covers', () => {
+    expect(contextWindowStart(5, 3)).toBe(3);
+  });
+
+  it.each([MEMORY_CONFIG.maxTurns - 1, MEMORY_CONFIG.maxTurns, MEMORY_CONFIG.maxTurns + 1])(
+    'sends no more turns than the server keeps for %i messages',
+    (count) => {
+      const messages = turns(count);
+      const start = contextWindowStart(count, 0);
+      const sent = messages.slice(start);
+
+      expect(sent).toHaveLength(Math.min(count, MEMORY_CONFIG.maxTurns));
+      // Nothing is dropped on the server, so sent[i] is still message start + i
+      expect(parseContextMessages(sent)[0].originalText).toBe(messages[start].originalText);
+    }
+  );
+});
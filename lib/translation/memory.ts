@@ -0,0 +1,81 @@
+import { getModelConfig } from '@/lib/config/translation';
+import { MEMORY_CONFIG } from '@/lib/config/memory';
+import { Language } from '@/lib/types';
+import type { ContextMessage } from './translate';
+
+export interface ConversationMemory {
+  summary: string; // running summary of turns no longer sent verbatim
+  recent: ContextMessage[]; // oldest first
+  overflow: ContextMessage[]; // turns that no longer fit and should be folded into the summary
+}
+
+// Rough token count without a tokenizer: about four characters per token for
+// alphabetic scripts, one per character for kana, kanji and hangul
+export function estimateTokens(text: string): number {
+  const wide = (text.match(/[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/g) || []).length;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+// Summaries come back from the client; anything much longer than we write is not ours
+export function parseSummary(value: unknown): string {
+  return typeof value === 'string' ? value.slice(0, MEMORY_CONFIG.summaryWords * 12) : '';
+}
+
+// Index of the oldest of `messageCount` turns a client still sends verbatim: none the
+// summary already covers, and no more than the server keeps, so that the count of
+// turns the server folds into the summary lines up with the client's list
+export function contextWindowStart(messageCount: number, summarizedCount: number): number {
+  return Math.max(summarizedCount, messageCount - MEMORY_CONFIG.maxTurns);
+}
+
+// Context turns arrive from the client as JSON, so keep only well-formed ones
+export function parseContextMessages(value: unknown): ContextMessage[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(turn => typeof turn?.originalText === 'string' && typeof turn?.translatedText === 'string')
+    .slice(-MEMORY_CONFIG.maxTurns)
+    .map(turn => ({
+      originalText: turn.originalText,
+      translatedText: turn.translatedText,
+      sourceLang: typeof turn.sourceLang === 'string' ? turn.sourceLang : undefined,
+      targetLang: typeof turn.targetLang === 'string' ? turn.targetLang : undefined,
+    }));
+}
+
+function languageLabel(code: string | undefined, languages: Language[]) {
+  if (!code) return undefined;
+  return languages.find(language => language.code === code)?.name || code;
+}
+
+// One turn with its speaker and languages spelled out, so the model can tell who
+// "I" and "you" are when it resolves references
+export function formatTurn(turn: ContextMessage, languages: Language[]): string {
+  const source = languageLabel(turn.sourceLang, languages);
+  const target = languageLabel(turn.targetLang, languages);
+
+  return [
+    `${source ? `${source} speaker` : 'Speaker'}: ${turn.originalText}`,
+    `Translation${target ? ` into ${target}` : ''}: ${turn.translatedText}`
+  ].join('\n');
+}
+
+// Keep the newest turns verbatim while they fit the model's budget, counting the
+// summary first. The newest turn is always kept; older ones spill into `overflow`.
+export function fitConversationMemory(
+  turns: ContextMessage[],
+  summary: string,
+  modelName: string
+): ConversationMemory {
+  let budget = getModelConfig(modelName).contextTokens - estimateTokens(summary);
+  let start = turns.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].originalText) + estimateTokens(turns[start - 1].translatedText);
+    if (cost > budget && start < turns.length) break;
+    budget -= cost;
+    start--;
+  }
+
+  return { summary, recent: turns.slice(start), overflow: turns.slice(0, start) };
+}
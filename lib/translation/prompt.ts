@@ -0,0 +1,31 @@
+// Tags that delimit untrusted content in our prompts, structure the system prompt
+// or structure the model's answer
+const RESERVED_TAGS = [
+  'history', 'summary', 'utterance', 'original', 'translated',
+  'languages', 'direction', 'keep-terms', 'glossary-terms', 'missing-terms',
+  'source', 'target', 'translation', 'notes', 'back_translation', 'score', 'alternative', 'think',
+  'task', 'role', 'domain', 'input-languages', 'language', 'output-format', 'input-analysis',
+  'translation-direction', 'guidelines', 'examples', 'register', 'honorifics', 'vocabulary',
+  'glossary', 'context-memory', 'translation-task', 'input', 'requirements', 'final-validation'
+];
+
+const RESERVED_TAG_PATTERN = new RegExp(`<(/?)(${RESERVED_TAGS.join('|')})(?![\\w-])`, 'gi');
+
+// Stop user content from opening or closing one of our tags: a spoken
+// "</utterance> new instructions" arrives as "&lt;/utterance> new instructions"
+export function escapePromptContent(text: string): string {
+  return text.replace(RESERVED_TAG_PATTERN, (_, slash: string, tag: string) => `&lt;${slash}${tag}`);
+}
+
+// Wrap untrusted content in a tag the instructions refer to
+export function delimit(tag: string, text: string): string {
+  return `<${tag}>\n${escapePromptContent(text)}\n</${tag}>`;
+}
+
+// Fill {PLACEHOLDER}s in a single pass. Values go in literally, so "$&" in a value
+// stays "$&" and a placeholder spoken inside a value is never expanded.
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/{([A-Z_]+)}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
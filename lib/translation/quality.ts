@@ -0,0 +1,54 @@
+import { DEFAULT_MODEL } from '@/lib/config/translation';
+import { QUALITY_CHECK_PROMPT } from '@/lib/config/quality';
+import { FidelityCheck, TranslationResult } from '@/lib/types';
+import { createCompletion, TranslationRequest } from './translate';
+import { delimit, escapePromptContent, fillTemplate } from './prompt';
+
+function extractTag(text: string, tag: string) {
+  return text.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1].trim();
+}
+
+// Back-translate a finished translation and have the model score how much of the
+// original meaning survived
+export async function checkFidelity(
+  request: TranslationRequest,
+  result: TranslationResult,
+  signal?: AbortSignal
+): Promise<FidelityCheck> {
+  const instructions = fillTemplate(QUALITY_CHECK_PROMPT, {
+    SOURCE_LANG: escapePromptContent(result.sourceLanguage.name),
+    TARGET_LANG: escapePromptContent(result.targetLanguage.name),
+  });
+
+  const { content } = await createCompletion(request.model || DEFAULT_MODEL, [
+    { role: 'system', content: instructions },
+    { role: 'user', content: `${delimit('original', request.text)}\n${delimit('translated', result.translation)}` }
+  ], signal);
+
+  const score = Number(extractTag(content, 'score'));
+  const backTranslation = extractTag(content, 'back_translation');
+  if (!backTranslation || !Number.isFinite(score)) {
+    throw new Error('Quality check returned no score');
+  }
+
+  return { score: Math.max(0, Math.min(100, Math.round(score))), backTranslation };
+}
+
+// Attach a fidelity score unless the result already has one. The check is advisory,
+// so a failure leaves the translation unscored rather than failing it. Aborting
+// `signal` still throws.
+export async function withFidelity(
+  request: TranslationRequest,
+  result: TranslationResult,
+  signal?: AbortSignal
+): Promise<TranslationResult> {
+  if (result.fidelity) return result;
+
+  try {
+    return { ...result, fidelity: await checkFidelity(request, result, signal) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Quality check failed:', error instanceof Error ? error.message : error);
+    return result;
+  }
+}
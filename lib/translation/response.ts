@@ -0,0 +1,130 @@
+import { findPairLanguage } from '@/lib/speech/language';
+import { Language, LanguagePair, TranslationResult, TranslationResponseError } from '@/lib/types';
+import { partialTagLength } from './think';
+
+type ResponseField = 'source' | 'target' | 'translation' | 'notes';
+
+const FIELDS: ResponseField[] = ['source', 'target', 'translation', 'notes'];
+const OPEN_TAGS = FIELDS.map(field => `<${field}>`);
+
+// Reads the tagged response the prompt templates ask for:
+//   <source>Korean</source><target>English</target><translation>…</translation><notes>…</notes>
+// The translation is handed back as it streams; everything else is collected for
+// finish(), which validates the direction against the conversation's language pair.
+export class TranslationResponseParser {
+  private buffer = '';
+  private raw = '';
+  private field: ResponseField | null = null;
+  private fields: Partial<Record<ResponseField, string>> = {};
+  private translationStarted = false;
+
+  // Returns the part of `chunk` that belongs to the translation, if any
+  push(chunk: string): string {
+    let translation = '';
+    this.raw += chunk;
+    this.buffer += chunk;
+
+    while (this.buffer) {
+      if (!this.field) {
+        const next = FIELDS
+          .map(field => ({ field, index: this.buffer.indexOf(`<${field}>`) }))
+          .filter(({ index }) => index >= 0)
+          .sort((a, b) => a.index - b.index)[0];
+
+        if (next) {
+          // Anything between fields is preamble the model leaked; drop it
+          this.buffer = this.buffer.slice(next.index + next.field.length + 2);
+          this.field = next.field;
+          this.fields[next.field] ??= '';
+          continue;
+        }
+
+        const heldBack = Math.max(...OPEN_TAGS.map(tag => partialTagLength(this.buffer, tag)));
+        this.buffer = this.buffer.slice(this.buffer.length - heldBack);
+        break;
+      }
+
+      const closeTag = `</${this.field}>`;
+      const closeIndex = this.buffer.indexOf(closeTag);
+      const heldBack = closeIndex >= 0 ? 0 : partialTagLength(this.buffer, closeTag);
+      const text = closeIndex >= 0
+        ? this.buffer.slice(0, closeIndex)
+        : this.buffer.slice(0, this.buffer.length - heldBack);
+
+      translation += this.append(this.field, text);
+
+      if (closeIndex >= 0) {
+        this.buffer = this.buffer.slice(closeIndex + closeTag.length);
+        this.field = null;
+      } else {
+        this.buffer = this.buffer.slice(this.buffer.length - heldBack);
+        break;
+      }
+    }
+
+    return translation;
+  }
+
+  // Validate the complete response. A `direction` worked out before translating always
+  // wins over what the model reports.
+  finish(languages: Language[], options?: { direction?: LanguagePair | null }): TranslationResult {
+    // An unterminated field still counts; the stream may have ended mid-tag
+    if (this.field) {
+      this.append(this.field, this.buffer);
+    }
+
+    const hasFields = Object.keys(this.fields).length > 0;
+    if (!hasFields) {
+      console.warn('Translation response had no structure, using it verbatim');
+    }
+
+    const translation = (hasFields ? this.fields.translation ?? '' : this.raw).trim();
+    if (!translation) {
+      throw new TranslationResponseError('Translation missing from model response');
+    }
+
+    const notes = this.fields.notes?.trim();
+    if (options?.direction) {
+      return { ...options.direction, translation, ...(notes ? { notes } : {}) };
+    }
+
+    const otherLanguage = (language: Language) =>
+      languages.find(candidate => candidate.code !== language.code) ?? language;
+
+    const detectedSource = findPairLanguage(this.fields.source ?? '', languages);
+    const detectedTarget = findPairLanguage(this.fields.target ?? '', languages);
+    const sourceLanguage = detectedSource
+      ?? (detectedTarget && otherLanguage(detectedTarget))
+      ?? languages[0];
+
+    if (!detectedSource || (detectedTarget && detectedTarget.code === detectedSource.code)) {
+      console.warn('Unexpected translation direction:', {
+        source: this.fields.source,
+        target: this.fields.target,
+        using: sourceLanguage.code
+      });
+    }
+
+    return {
+      sourceLanguage,
+      targetLanguage: otherLanguage(sourceLanguage),
+      translation,
+      ...(notes ? { notes } : {})
+    };
+  }
+
+  private append(field: ResponseField, text: string): string {
+    if (field !== 'translation') {
+      this.fields[field] = (this.fields[field] ?? '') + text;
+      return '';
+    }
+
+    // Models often open the tag with a newline
+    const delta = this.translationStarted ? text : text.trimStart();
+    if (delta) {
+      this.translationStarted = true;
+      this.fields.translation = (this.fields.translation ?? '') + delta;
+    }
+    return delta;
+  }
+}
@@ -0,0 +1,56 @@
+import { MEMORY_CONFIG, MEMORY_SUMMARY_PROMPT } from '@/lib/config/memory';
+import { DEFAULT_MODEL } from '@/lib/config/translation';
+import { Language } from '@/lib/types';
+import { ContextMessage, createCompletion, TranslationRequest } from './translate';
+import { fitConversationMemory, formatTurn } from './memory';
+import { delimit, fillTemplate } from './prompt';
+
+// Fold turns that no longer fit into the running summary
+export async function summarizeConversation(
+  modelName: string,
+  summary: string,
+  turns: ContextMessage[],
+  languages: Language[],
+  signal?: AbortSignal
+): Promise<string> {
+  const instructions = fillTemplate(MEMORY_SUMMARY_PROMPT, {
+    SUMMARY_WORDS: String(MEMORY_CONFIG.summaryWords),
+  });
+
+  const { content } = await createCompletion(modelName, [
+    { role: 'system', content: instructions },
+    {
+      role: 'user',
+      content: `${delimit('summary', summary)}\n${delimit('history', turns.map(turn => formatTurn(turn, languages)).join('\n\n'))}`
+    }
+  ], signal);
+
+  if (!content) {
+    throw new Error('Conversation summary came back empty');
+  }
+  return content;
+}
+
+export interface SummaryUpdate {
+  summary: string;
+  summarizedTurns: number; // how many of the oldest turns sent the summary now covers
+}
+
+// Fold the turns that no longer fit the model's budget into the summary. Returns null
+// when nothing overflowed or summarizing failed; the client then resends those turns.
+export async function updateConversationSummary(
+  request: Pick<TranslationRequest, 'languages' | 'previousMessages' | 'summary' | 'model'>,
+  signal?: AbortSignal
+): Promise<SummaryUpdate | null> {
+  const modelName = request.model || DEFAULT_MODEL;
+  const { overflow } = fitConversationMemory(request.previousMessages || [], request.summary || '', modelName);
+  if (overflow.length === 0) return null;
+
+  try {
+    const summary = await summarizeConversation(modelName, request.summary || '', overflow, request.languages, signal);
+    return { summary, summarizedTurns: overflow.length };
+  } catch (error) {
+    console.error('Conversation summary failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export type ThinkPart = { type: 'content' | 'reasoning'; text: string };
+
+// Length of the longest suffix of `text` that could be the start of `tag`
+export function partialTagLength(text: string, tag: string) {
+  for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+// Separates R1-style <think>…</think> reasoning from the answer in a token stream.
+// Tags may arrive split across chunks ("<th" + "ink>"), so a possible partial tag
+// at the end of a chunk is held back until the next one decides it.
+export class ThinkTagParser {
+  private buffer = '';
+  private isThinking = false;
+
+  push(chunk: string): ThinkPart[] {
+    const parts: ThinkPart[] = [];
+    this.buffer += chunk;
+
+    while (this.buffer) {
+      const tag = this.isThinking ? CLOSE_TAG : OPEN_TAG;
+      const tagIndex = this.buffer.indexOf(tag);
+
+      if (tagIndex >= 0) {
+        this.emit(parts, this.buffer.slice(0, tagIndex));
+        this.buffer = this.buffer.slice(tagIndex + tag.length);
+        this.isThinking = !this.isThinking;
+        continue;
+      }
+
+      const heldBack = partialTagLength(this.buffer, tag);
+      this.emit(parts, this.buffer.slice(0, this.buffer.length - heldBack));
+      this.buffer = this.buffer.slice(this.buffer.length - heldBack);
+      break;
+    }
+
+    return parts;
+  }
+
+  // Release whatever is still held back once the stream has ended
+  flush(): ThinkPart[] {
+    const parts: ThinkPart[] = [];
+    this.emit(parts, this.buffer);
+    this.buffer = '';
+    return parts;
+  }
+
+  private emit(parts: ThinkPart[], text: string) {
+    if (text) {
+      parts.push({ type: this.isThinking ? 'reasoning' : 'content', text });
+    }
+  }
+}
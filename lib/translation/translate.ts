@@ -0,0 +1,302 @@
+import OpenAI from 'openai';
+import type { ChatCompletionChunk, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  DEFAULT_MODEL,
+  DIRECTION_INSTRUCTIONS,
+  FIRST_TOKEN_TIMEOUT,
+  getModelChain,
+  getModelConfig,
+  ModelConfig,
+  PROMPT_TEMPLATES,
+  UNTRUSTED_CONTENT_RULE,
+  USER_CONTENT_REFERENCES
+} from '@/lib/config/translation';
+import { formatVocabularyInstructions, formatVocabularyTerms, parseVocabulary } from '@/lib/vocabulary';
+import { formatGlossaryInstructions, formatGlossaryTerms } from '@/lib/glossary';
+import { formatHonorificInstructions, getRegisterConfig } from '@/lib/config/register';
+import { formatDomainPrompt } from '@/lib/config/domains';
+import { GlossaryEntry, Language, LanguagePair } from '@/lib/types';
+import { withRetry } from '@/lib/resilience';
+import { ThinkPart, ThinkTagParser } from './think';
+import { delimit, fillTemplate } from './prompt';
+import { fitConversationMemory, formatTurn } from './memory';
+
+export interface ContextMessage {
+  originalText: string;
+  translatedText: string;
+  sourceLang?: string; // language codes, used to label who said what
+  targetLang?: string;
+}
+
+export interface TranslationRequest {
+  text: string;
+  languages: Language[];
+  previousMessages?: ContextMessage[]; // turns not yet folded into `summary`, oldest first
+  summary?: string; // running summary of earlier turns
+  vocabulary?: unknown;
+  model?: string; // MODEL_CONFIGS key, validated by the caller
+  direction?: LanguagePair | null; // unset: the model detects the input language
+  glossary?: GlossaryEntry[];
+  missingTerms?: GlossaryEntry[]; // glossary terms a previous attempt left out
+  register?: string; // REGISTER_CONFIGS key, validated by the caller
+  domain?: string; // DOMAIN_PACKS key, validated by the caller
+}
+
+export interface TranslationStream {
+  model: string; // MODEL_CONFIGS key that actually served the request
+  stream: AsyncIterable<ChatCompletionChunk>;
+}
+
+// One client per model key, reused across requests
+const clients = new Map<string, OpenAI>();
+
+function getClient(modelName: string, modelConfig: ModelConfig) {
+  let client = clients.get(modelName);
+  if (!client) {
+    client = new OpenAI({
+      baseURL: modelConfig.baseURL,
+      apiKey: modelConfig.apiKey,
+      maxRetries: 0, // lib/resilience.ts retries, with the same policy for every provider
+    });
+    clients.set(modelName, client);
+  }
+  return client;
+}
+
+function buildTranslationMessages(
+  { text, languages, previousMessages, summary, vocabulary, direction, glossary, missingTerms, register, domain }: TranslationRequest,
+  modelName: string,
+  modelConfig: ModelConfig
+): ChatCompletionMessageParam[] {
+  const terms = parseVocabulary(vocabulary);
+  const entries = glossary || [];
+
+  const directionInstructions = fillTemplate(
+    direction ? DIRECTION_INSTRUCTIONS.known : DIRECTION_INSTRUCTIONS.detect,
+    USER_CONTENT_REFERENCES
+  );
+
+  // Select and format prompt based on model configuration
+  const instructions = fillTemplate(PROMPT_TEMPLATES[modelConfig.promptType], {
+    ...formatDomainPrompt(domain),
+    ...USER_CONTENT_REFERENCES,
+    DIRECTION: directionInstructions,
+    REGISTER: getRegisterConfig(register).instructions,
+    HONORIFICS: formatHonorificInstructions(register, languages),
+    VOCABULARY: formatVocabularyInstructions(terms),
+    GLOSSARY: formatGlossaryInstructions(entries, missingTerms),
+  });
+
+  console.log('Prompt:', instructions);
+
+  // Anything the client sent only ever travels in delimited user messages: language
+  // names and terms first, then what was said. Turns beyond this model's budget are
+  // left to the summary; the route folds them in afterwards.
+  const memory = fitConversationMemory(previousMessages || [], summary || '', modelName);
+  const context = [
+    delimit('languages', `${languages[0].name}\n${languages[1].name}`),
+    ...(direction
+      ? [delimit('direction', `source: ${direction.sourceLanguage.name}\ntarget: ${direction.targetLanguage.name}`)]
+      : []),
+    ...(terms.length > 0 ? [delimit('keep-terms', formatVocabularyTerms(terms))] : []),
+    ...(entries.length > 0 ? [delimit('glossary-terms', formatGlossaryTerms(entries))] : []),
+    ...(missingTerms && missingTerms.length > 0 ? [delimit('missing-terms', formatGlossaryTerms(missingTerms))] : []),
+    ...(memory.summary ? [delimit('summary', memory.summary)] : []),
+    ...(memory.recent.length > 0
+      ? [delimit('history', memory.recent.map(turn => formatTurn(turn, languages)).join('\n\n'))]
+      : [])
+  ];
+
+  return [
+    { role: 'system', content: `${instructions}\n\n${UNTRUSTED_CONTENT_RULE}` },
+    { role: 'user', content: context.join('\n') },
+    { role: 'user', content: delimit('utterance', text) }
+  ];
+}
+
+// Open a streaming completion and wait for its first content token. Chunks read
+// while waiting are replayed, so the returned stream is complete.
+async function openProviderStream(
+  modelName: string,
+  request: TranslationRequest,
+  signal?: AbortSignal
+): Promise<AsyncIterable<ChatCompletionChunk>> {
+  const modelConfig = getModelConfig(modelName);
+  const client = getClient(modelName, modelConfig);
+  const messages = buildTranslationMessages(request, modelName, modelConfig);
+  const controller = new AbortController();
+
+  // The caller's abort also ends the upstream stream once it is running, so the
+  // listener stays until the stream is done
+  signal?.throwIfAborted();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`${modelName} produced no token within ${FIRST_TOKEN_TIMEOUT}ms`)),
+      FIRST_TOKEN_TIMEOUT
+    );
+  });
+
+  const buffered: ChatCompletionChunk[] = [];
+  let iterator: AsyncIterator<ChatCompletionChunk>;
+
+  try {
+    // Use retry logic for the stream creation
+    const stream = await Promise.race([
+      withRetry('translate', modelName, async (attemptSignal) => {
+        return await client.chat.completions.create({
+          model: modelConfig.model,
+          messages,
+          temperature: modelConfig.temperature,
+          stream: true,
+        }, { signal: attemptSignal });
+      }, controller.signal),
+      timeout
+    ]);
+
+    iterator = stream[Symbol.asyncIterator]();
+    while (true) {
+      const result = await Promise.race([iterator.next(), timeout]);
+      if (result.done) break;
+      buffered.push(result.value);
+      if (result.value.choices[0]?.delta?.content) break;
+    }
+  } catch (error) {
+    // Stop paying for a stream we are abandoning
+    controller.abort();
+    signal?.removeEventListener('abort', abort);
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  return (async function* () {
+    try {
+      yield* buffered;
+      while (true) {
+        const result = await iterator.next();
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+  })();
+}
+
+// Open a streaming translation, walking the fallback chain when a provider fails.
+// Aborting `signal` cancels the provider request, including a stream already open.
+export async function createTranslationStream(
+  request: TranslationRequest,
+  signal?: AbortSignal
+): Promise<TranslationStream> {
+  const chain = getModelChain(request.model || DEFAULT_MODEL);
+  let lastError: unknown = new Error('No translation model available');
+
+  for (const modelName of chain) {
+    try {
+      const stream = await openProviderStream(modelName, request, signal);
+      if (modelName !== chain[0]) {
+        console.log(`Translation served by fallback model: ${modelName}`);
+      }
+      return { model: modelName, stream };
+    } catch (error) {
+      // A cancelled request is not a provider failure, so don't fall back
+      if (signal?.aborted) throw error;
+      console.error(`Translation model ${modelName} failed:`, error instanceof Error ? error.message : error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+// One-shot completion for auxiliary prompts such as the quality check, walking the
+// same fallback chain as translations. Any <think> phase is dropped.
+export async function createCompletion(
+  preferredModel: string,
+  messages: ChatCompletionMessageParam[],
+  signal?: AbortSignal
+): Promise<{ model: string; content: string }> {
+  const chain = getModelChain(preferredModel);
+  let lastError: unknown = new Error('No translation model available');
+
+  for (const modelName of chain) {
+    try {
+      const modelConfig = getModelConfig(modelName);
+      const completion = await withRetry('translate', modelName, (attemptSignal) =>
+        getClient(modelName, modelConfig).chat.completions.create({
+          model: modelConfig.model,
+          messages,
+          temperature: 0,
+        }, { signal: attemptSignal }),
+        signal
+      );
+
+      const parser = new ThinkTagParser();
+      const content = [...parser.push(completion.choices[0]?.message?.content || ''), ...parser.flush()]
+        .filter(part => part.type === 'content')
+        .map(part => part.text)
+        .join('')
+        .trim();
+      return { model: modelName, content };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Completion model ${modelName} failed:`, error instanceof Error ? error.message : error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+// Yield translated text from a completion stream as it arrives. The <think> phase of
+// R1-style models is kept out of the translation and only handed to onReasoning.
+export async function* translationContent(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  options?: { onFirstToken?: () => void; onReasoning?: (text: string) => void }
+): AsyncGenerator<string> {
+  const parser = new ThinkTagParser();
+  let firstTokenSeen = false;
+  let contentStarted = false;
+  let thinkingContent = '';
+
+  function* handle(parts: ThinkPart[]) {
+    for (const part of parts) {
+      if (part.type === 'reasoning') {
+        thinkingContent += part.text;
+        options?.onReasoning?.(part.text);
+        continue;
+      }
+
+      if (thinkingContent) {
+        console.log('Thinking phase:', thinkingContent);
+        thinkingContent = '';
+      }
+
+      // Models usually put blank lines between </think> and the answer
+      const text = contentStarted ? part.text : part.text.trimStart();
+      if (text) {
+        contentStarted = true;
+        yield text;
+      }
+    }
+  }
+
+  for await (const chunk of stream) {
+    const content = chunk.choices[0]?.delta?.content;
+    if (!content) continue;
+
+    if (!firstTokenSeen) {
+      firstTokenSeen = true;
+      options?.onFirstToken?.();
+    }
+
+    yield* handle(parser.push(content));
+  }
+
+  yield* handle(parser.flush());
+}
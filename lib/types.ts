@@ -8,6 +8,33 @@ export interface LanguagePair {
   targetLanguage: Language;
 }
 
+// A term that must always be translated the same way (room types, brand, medication)
+export interface GlossaryEntry {
+  source: string;  // As it appears in the input
+  target: string;  // Required in the translation
+}
+
+// Validated translation returned by /api/translate and /api/pipeline
+export interface TranslationResult extends LanguagePair {
+  translation: string;
+  notes?: string;  // Model remarks on ambiguity, idioms, etc.
+  glossaryMissing?: GlossaryEntry[];  // Required terms still absent after a retry
+  fidelity?: FidelityCheck;  // Only when a quality check was requested
+  alternatives?: TranslationAlternative[];  // Only when alternatives were requested
+}
+
+// A differently phrased translation the user can pick instead
+export interface TranslationAlternative {
+  label: string;  // e.g. "Literal", "Natural", "Polite"
+  translation: string;
+}
+
+// Back-translation quality check of a translation
+export interface FidelityCheck {
+  score: number;  // 0-100, how much of the original meaning survived
+  backTranslation: string;
+}
+
 // Custom errors for language detection
 export class UnrecognizedLanguageError extends Error {
   constructor(message = 'Language could not be recognized') {
@@ -28,4 +55,68 @@ export class MissingLanguagePairError extends Error {
     super(message);
     this.name = 'MissingLanguagePairError';
   }
-} 
\ No newline at end of file
+}
+
+// Speech pipeline errors carry the HTTP status and response fields they map to
+export class SpeechProcessingError extends Error {
+  status: number;
+  details: string;
+  extra?: Record<string, unknown>;
+
+  constructor(message: string, status: number, details: string, extra?: Record<string, unknown>) {
+    super(message);
+    this.name = 'SpeechProcessingError';
+    this.status = status;
+    this.details = details;
+    this.extra = extra;
+  }
+}
+
+// Non-OK pipeline responses keep the server's error fields so callers can branch on them
+export class PipelineRequestError extends Error {
+  error: string;
+  details?: string;
+  data: Record<string, unknown>;
+
+  constructor(data: { error?: string; details?: string } & Record<string, unknown>) {
+    super(data.details || data.error || 'Pipeline request failed');
+    this.name = 'PipelineRequestError';
+    this.error = data.error || 'Pipeline request failed';
+    this.details = data.details;
+    this.data = data;
+  }
+}
+
+// The model's answer could not be read as a translation
+export class TranslationResponseError extends Error {
+  constructor(message = 'Invalid translation response') {
+    super(message);
+    this.name = 'TranslationResponseError';
+  }
+}
+
+// A provider answered with an error status outside the OpenAI client, e.g. ElevenLabs
+export class UpstreamError extends Error {
+  status: number;
+  headers: Headers;
+
+  constructor(message: string, status: number, headers: Headers) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// A provider failed often enough recently that calls to it are skipped for a while
+export class CircuitOpenError extends Error {
+  provider: string;
+  retryAfter: number; // ms until the provider is tried again
+
+  constructor(provider: string, retryAfter: number) {
+    super(`${provider} is temporarily unavailable, retry in ${Math.ceil(retryAfter / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.provider = provider;
+    this.retryAfter = retryAfter;
+  }
+}
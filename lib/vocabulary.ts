@@ -0,0 +1,42 @@
+// Custom vocabulary (hotel, street and dish names, ...) shared by STT and translation
+export const MAX_VOCABULARY_TERMS = 50;
+const MAX_TERM_LENGTH = 60;
+// Whisper only looks at the last 224 tokens of its prompt
+const MAX_PROMPT_LENGTH = 600;
+
+// Accepts anything from a request body and returns a clean, de-duplicated term list
+export function parseVocabulary(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+
+  const terms = value
+    .filter((term): term is string => typeof term === 'string')
+    .map(term => term.trim().slice(0, MAX_TERM_LENGTH))
+    .filter(Boolean);
+
+  return Array.from(new Set(terms)).slice(0, MAX_VOCABULARY_TERMS);
+}
+
+// Biasing prompt for whisper: a plain list of correctly spelled terms
+export function formatTranscriptionPrompt(vocabulary: string[]): string | undefined {
+  if (vocabulary.length === 0) return undefined;
+
+  let prompt = '';
+  for (const term of vocabulary) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_LENGTH) break;
+    prompt = next;
+  }
+  return `${prompt}.`;
+}
+
+// Instruction block for the translation prompt. The terms themselves are the
+// client's, so they travel in a user message inside <keep-terms>.
+export function formatVocabularyInstructions(vocabulary: string[]): string {
+  if (vocabulary.length === 0) return 'None';
+  return 'Keep the terms listed inside <keep-terms> exactly as written, do not translate or respell them.';
+}
+
+// One term per line, for <keep-terms>
+export function formatVocabularyTerms(vocabulary: string[]): string {
+  return vocabulary.join('\n');
+}
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    // Provider settings are read at import time; tests never reach a real provider
+    env: {
+      TOGETHER_API_KEY: 'test',
+      TRANSLATION_FALLBACK_CHAIN: 'togetherai',
+    },
+  },
+});